@@ -0,0 +1,26 @@
+// Out-of-office awareness: turns an approver's automatic-replies setting into a notice
+// when they are away at any point between now and the end of the look-ahead window.
+
+import type { AutomaticReplies } from './directory-providers.js';
+
+export type AwayNotice = {
+  until?: string; // ISO date-time the automatic replies end, when scheduled
+  message: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function awayNotice(replies: AutomaticReplies, windowDays: number, now = Date.now()): AwayNotice | null {
+  const start = replies.start ? Date.parse(replies.start) : NaN;
+  const end = replies.end ? Date.parse(replies.end) : NaN;
+  const windowEnd = now + Math.max(0, windowDays || 0) * DAY_MS;
+  if (!isNaN(end) && end < now) return null;
+  if (!isNaN(start) && start > windowEnd) return null;
+  return { until: isNaN(end) ? undefined : new Date(end).toISOString(), message: replies.message };
+}
+
+// Automatic replies often contain HTML; the tooltip only needs the text
+export function plainText(message: string): string {
+  const doc = new DOMParser().parseFromString(message || '', 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,53 @@
+// Extra per-row columns declared in the designer, e.g. a role, a due date or instructions.
+// Values are stored on each row and saved next to `approver` under the column key:
+// [{ "key": "role", "label": "Role", "type": "choice", "choices": ["Technical reviewer", "Business owner"], "required": true }]
+
+import { ENTRY_KEYS } from './approvers-schema.js';
+
+export type ColumnType = 'text' | 'date' | 'choice';
+
+export type ColumnDef = {
+  key: string;
+  label: string;
+  type: ColumnType;
+  required: boolean;
+  choices: string[]; // only used by 'choice'
+};
+
+const TYPES: ColumnType[] = ['text', 'date', 'choice'];
+
+export function parseColumns(json: string | undefined | null): ColumnDef[] {
+  if (!json || !json.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Row columns are not valid JSON.');
+  }
+  if (!Array.isArray(parsed)) throw new Error('Row columns must be a JSON array.');
+  const seen = new Set<string>();
+  return parsed.map((c: any, i: number) => {
+    const key = typeof c?.key === 'string' ? c.key.trim() : '';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+      throw new Error(`Row column ${i + 1} needs a key made of letters, digits and underscores.`);
+    }
+    // Keys become properties of each saved approver, so they cannot shadow the built-in ones
+    if (ENTRY_KEYS.includes(key) || seen.has(key)) {
+      throw new Error(`Row column key "${key}" is reserved or used twice.`);
+    }
+    seen.add(key);
+    const type: ColumnType = TYPES.includes(c.type) ? c.type : 'text';
+    const choices = Array.isArray(c.choices) ? c.choices.map(String).filter(Boolean) : [];
+    if (type === 'choice' && !choices.length) {
+      throw new Error(`Row column "${key}" is a choice column without choices.`);
+    }
+    return { key, label: typeof c.label === 'string' && c.label.trim() ? c.label.trim() : key, type, required: c.required === true, choices };
+  });
+}
+
+// Dates are stored as yyyy-mm-dd, as produced by <input type="date">
+export function formatColumnValue(column: ColumnDef, value: string, locale?: string): string {
+  if (column.type !== 'date' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(locale);
+}
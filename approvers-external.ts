@@ -0,0 +1,27 @@
+// Approvers outside the directory (vendors, auditors), added by email address. They are
+// saved with "external": true so the workflow can send them an external approval task.
+
+import type { Person } from './approvers-schema.js';
+import { domainMatches, domainOf } from './directory-scope.js';
+
+// Deliberately loose: one @, no spaces or address-list punctuation, a dotted domain
+const EMAIL_PATTERN = /^[^\s@<>()[\]",;:]+@[^\s@<>()[\]",;:]+\.[^\s@<>()[\]",;:.]{2,}$/;
+
+export type ExternalProblem = 'format' | 'domain';
+
+export function isEmailAddress(text: string): boolean {
+  return EMAIL_PATTERN.test((text || '').trim());
+}
+
+// null when the address may be added; allowedDomains empty means any domain
+export function externalProblem(address: string, allowedDomains: string[]): ExternalProblem | null {
+  if (!isEmailAddress(address)) return 'format';
+  if (allowedDomains.length && !domainMatches(domainOf(address.trim()), allowedDomains)) return 'domain';
+  return null;
+}
+
+export function externalPerson(address: string): Person {
+  const email = address.trim();
+  const login = email.toLowerCase();
+  return { id: login, displayName: email, email, login, principalType: 'user', external: true };
+}
@@ -0,0 +1,100 @@
+// Other form controls read by the approval rules. A field is referenced by its id,
+// data-controlid, name, or the classic forms "Client ID JavaScript variable name".
+
+// Elements may come from the parent document, so tag names are checked instead of instanceof
+function labelOf(input: HTMLInputElement): string {
+  return input.labels?.[0]?.textContent?.trim() || input.value;
+}
+
+function valueOf(el: Element): string {
+  const tag = el.tagName;
+  if (tag === 'SELECT') return Array.from((el as HTMLSelectElement).selectedOptions).map(o => o.text.trim()).join(', ');
+  if (tag === 'INPUT') {
+    const input = el as HTMLInputElement;
+    return input.type === 'checkbox' || input.type === 'radio' ? String(input.checked) : input.value;
+  }
+  if (tag === 'TEXTAREA') return (el as HTMLTextAreaElement).value;
+  // Choice and yes/no controls render a wrapper around their inputs
+  const choices = Array.from(el.querySelectorAll<HTMLInputElement>('input[type="checkbox"], input[type="radio"]'));
+  if (choices.length === 1 && choices[0].type === 'checkbox') return String(choices[0].checked);
+  if (choices.length) return choices.filter(c => c.checked).map(labelOf).join(', ');
+  const field = el.querySelector('input:not([type="hidden"]), textarea, select');
+  return field ? valueOf(field) : (el.textContent || '').trim(); // calculated values are plain text
+}
+
+export class FormFieldWatcher {
+  private observer?: MutationObserver;
+  private pending = false;
+  private last: string | null = null;
+  private readonly onEvent = () => this.schedule();
+
+  // nwf is the forms jQuery (NWF$); its triggered changes fire no DOM events
+  constructor(
+    private doc: Document,
+    readonly fields: string[],
+    private onChange: (values: Record<string, string>) => void,
+    private nwf?: any,
+  ) {}
+
+  // Reports the current values right away, then on every change
+  start() {
+    if (this.observer) return;
+    this.doc.addEventListener('input', this.onEvent, true);
+    this.doc.addEventListener('change', this.onEvent, true);
+    this.nwf?.(this.doc).on('change.approversRules', this.onEvent);
+    // Late-rendered controls, calculated values and rules that rewrite the form
+    this.observer = new MutationObserver(() => this.schedule());
+    this.observer.observe(this.doc.body, { childList: true, characterData: true, subtree: true });
+    console.log('Watching form fields for approval rules:', this.fields);
+    this.check();
+  }
+
+  stop() {
+    this.observer?.disconnect();
+    this.observer = undefined;
+    this.doc.removeEventListener('input', this.onEvent, true);
+    this.doc.removeEventListener('change', this.onEvent, true);
+    this.nwf?.(this.doc).off('change.approversRules', this.onEvent);
+    this.pending = false;
+    this.last = null;
+  }
+
+  // Fields not found on the form are left out
+  read(): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const ref of this.fields) {
+      const el = this.find(ref);
+      if (el) values[ref] = valueOf(el);
+    }
+    return values;
+  }
+
+  private find(ref: string): Element | null {
+    const variable = (this.doc.defaultView as any)?.[ref];
+    const ids = typeof variable === 'string' ? [variable, ref] : [ref];
+    for (const id of ids) {
+      const el = this.doc.getElementById(id) || this.doc.querySelector(`[data-controlid="${CSS.escape(id)}"]`);
+      if (el) return el;
+    }
+    return this.doc.querySelector(`[name="${CSS.escape(ref)}"]`);
+  }
+
+  private schedule() {
+    if (this.pending) return;
+    this.pending = true;
+    requestAnimationFrame(() => {
+      if (!this.pending) return; // stopped meanwhile
+      this.pending = false;
+      this.check();
+    });
+  }
+
+  private check() {
+    const values = this.read();
+    const key = JSON.stringify(values);
+    if (key === this.last) return;
+    this.last = key;
+    console.log('Form field values changed:', values);
+    this.onChange(values);
+  }
+}
@@ -0,0 +1,709 @@
+// UI message catalog. English is the source; bundled locales may leave keys out and fall
+// back to it. Messages use {name} placeholders, and keys ending in _one/_other are picked
+// by the plural rules of the locale from the {count} parameter.
+
+const en = {
+  // Rows and picker
+  searchPlaceholder: 'Search people…',
+  addRow: 'Add New Row',
+  addStage: 'Add Stage',
+  addToStage: '+ Approver',
+  noRows: 'No rows, click below to add',
+  noApprovers: 'No approvers to display',
+  noApproverSelected: 'No approver selected',
+  resolving: 'Resolving…',
+  searching: 'Searching…',
+  noMatches: 'No matches',
+  minChars: 'Type at least {count} characters to search',
+  suggestionsAvailable_one: '{count} suggestion available, use up and down arrows to review',
+  suggestionsAvailable_other: '{count} suggestions available, use up and down arrows to review',
+  suggestionsClosed: 'Suggestions closed',
+  suggestionsFor: 'Suggestions for approver {order}',
+  approverLabel: 'Approver {order}',
+  reorderApprover: 'Reorder approver {order}',
+  dragHandle: 'drag handle',
+  moveUp: 'Move approver {order} up',
+  moveDown: 'Move approver {order} down',
+  removeApprover: 'Remove approver {order}',
+  upLabel: 'Up',
+  downLabel: 'Down',
+  removeLabel: 'Remove',
+  clearApprover: 'Clear {name} from approver {order}',
+  group: 'Group',
+  groupPrefix: 'Group:',
+  external: 'External',
+  addExternal: 'Add {email} as an external approver',
+  externalInvalid: 'Enter a valid email address to add an external approver',
+  externalDomain: 'External approvers must use one of these domains: {domains}',
+  locked: 'Locked',
+  lockedTitle: 'Required by the template',
+  requiredByTemplate: 'Required by the template {template}',
+  selected: '{name} selected as approver {order}',
+  cleared: 'Approver {order} cleared',
+  rowAdded: 'Approver {order} added',
+  rowRemoved: 'Approver {order} removed',
+  movedToStage: 'Approver moved to stage {stage}',
+  movedToPosition: 'Approver moved to position {position}',
+  movedToPositionInStage: 'Approver moved to position {position} in stage {stage}',
+  droppedAtOrigin: 'Approver dropped at its original position',
+  pickedUp: 'Picked up approver {order}. Use up and down arrows to move, Space to drop, Escape to cancel.',
+  dropBefore: 'Drop before approver {order}',
+  dropAfter: 'Drop after approver {order}',
+  dropBeforeInStage: 'Drop before approver {order} in stage {stage}',
+  dropAfterInStage: 'Drop after approver {order} in stage {stage}',
+  moveCancelled: 'Move cancelled',
+  fieldFor: '{label} for approver {order}',
+
+  // Stages
+  stage: 'Stage {stage}',
+  modeAll: 'All must approve',
+  modeAny: 'Any one approves',
+  moveStageUp: 'Move stage up',
+  moveStageDown: 'Move stage down',
+  removeStage: 'Remove stage',
+
+  // Loading and sign-in
+  savedRejected: '{detail} The saved approvers were not loaded.',
+  savedUnreadable: 'Unable to read the saved approvers.',
+  statusUnreadable: 'Unable to read the approval status.',
+  signIn: 'Sign in to load approvers',
+  signingIn: 'Signing in…',
+  signInFailed: 'Sign-in failed: {detail}',
+  popupBlocked: 'The sign-in pop-up was blocked. Allow pop-ups for this site and try again.',
+  detailsFailed: 'Unable to load details for some approvers.',
+  searchFailed: 'Search failed: {detail}',
+  errorAuth: 'Your sign-in has expired. Sign in again to continue.',
+  errorForbidden: 'You do not have permission to search the directory. Ask an administrator to grant the app access.',
+  errorThrottled: 'The directory is busy right now. Try again in a moment.',
+  errorUnavailable: 'The directory did not respond in time. Try again in a moment.',
+  errorOffline: 'You appear to be offline. Check your connection and try again.',
+
+  // Validation
+  minApprovers_one: 'At least one approver is required.',
+  minApprovers_other: 'At least {count} approvers are required.',
+  selfApproval: 'You cannot be an approver on your own request.',
+  duplicate: '{name} is already approver {order}.',
+  columnsRequired_one: '{labels} is required.',
+  columnsRequired_other: '{labels} are required.',
+  emptyRow: 'Choose an approver or remove this row.',
+
+  // Groups
+  addingMembers: 'Adding members of {group}…',
+  noNewMembers: '{group} has no members that are not already approvers.',
+  someMembersAdded: 'Only {added} of {total} members of {group} were added (maximum {max} rows).',
+  membersAdded: '{count} members of {group} added',
+  membersFailed: 'Unable to add members of {group}: {detail}',
+
+  // Templates
+  template: 'Template',
+  chooseTemplate: 'Choose a template…',
+  replaceRows: 'Replace rows',
+  mergeRows: 'Merge into rows',
+  templatesFailed: 'Unable to load approver templates.',
+  templateOverflow_one: '{count} approver was not added from {template} (maximum {max} rows).',
+  templateOverflow_other: '{count} approvers were not added from {template} (maximum {max} rows).',
+  templateApplied: 'Template {template} applied',
+
+  // Approval rules
+  requiredByRule: 'Required by the approval rule {rule}',
+  rulesNotice: 'Required by approval rules: {rules}',
+  rulesApplied: 'Approvers updated by approval rules: {rules}',
+  ruleOverflow_one: '{count} required approver was not added (maximum {max} rows).',
+  ruleOverflow_other: '{count} required approvers were not added (maximum {max} rows).',
+
+  // Management chain
+  addManagers: 'Add my managers',
+  noManagerSupport: 'The selected directory provider cannot look up managers.',
+  lookingUpManagers: 'Looking up your management chain…',
+  noManager: 'No manager was found for your account.',
+  managersOverflow_one: '{count} manager was not added (maximum {max} rows).',
+  managersOverflow_other: '{count} managers were not added (maximum {max} rows).',
+  managersAdded_one: '{count} manager added',
+  managersAdded_other: '{count} managers added',
+  alreadySelected: '{count} already selected',
+  managersFailed: 'Unable to look up your management chain: {detail}',
+
+  // Approval status
+  progressRejected: 'Rejected',
+  progressApproved: 'Approved',
+  progressInProgress: 'In progress',
+  progressCount: '{approved} of {total} approved',
+  awaitingDecision: 'Awaiting decision',
+  pending: 'Pending',
+
+  // Out of office and backups
+  away: 'Away',
+  awayUntil: 'Away until {date}',
+  isAway: '{name} is away',
+  isAwayUntil: '{name} is away until {date}',
+  backup: 'Backup:',
+  backupSearch: 'Search backup approver…',
+  backupFor: 'Backup for approver {order}',
+  removeBackup: 'Remove backup {name} from approver {order}',
+  addBackupFor: 'Add a backup for approver {order}',
+  addBackup: '+ Backup',
+  chooseBackup: 'Choose a backup',
+  suggestedBackup: 'Suggested backup: {name}',
+  useAsBackup: 'Use as backup',
+  backupSame: 'The backup must be someone other than the approver.',
+  backupSet: '{name} set as backup for approver {order}',
+  backupRemoved: 'Backup removed from approver {order}',
+
+  // Bulk add and export
+  bulkAdd: 'Add in bulk',
+  exportCsv: 'Export CSV',
+  bulkTitle: 'Add approvers in bulk',
+  bulkHint: 'Paste names or email addresses, e.g. from an Outlook To line, one per line or separated by commas',
+  bulkUpload: 'Or upload a CSV file',
+  preview: 'Preview',
+  cancel: 'Cancel',
+  back: 'Back',
+  bulkNothing: 'No names or email addresses were found.',
+  bulkFileFailed: 'Unable to read {file}: {detail}',
+  bulkLookingUp: 'Looking up approvers…',
+  bulkReady: '{chosen} of {total} ready to add. Room for {room} more (maximum {max}).',
+  importPending: 'Looking up…',
+  importResolved: 'Found',
+  importAmbiguous: 'Several matches',
+  importNotFound: 'Not found',
+  chooseWho: 'Choose who {entry} is',
+  choose: 'Choose…',
+  bulkConfirm_one: 'Add {count} approver',
+  bulkConfirm_other: 'Add {count} approvers',
+  approversAdded_one: '{count} approver added',
+  approversAdded_other: '{count} approvers added',
+  alreadyChosen: '{count} already chosen',
+  notAddedMax: '{count} not added (maximum {max} rows)',
+};
+
+type EnglishKey = keyof typeof en;
+export type MessageKey = EnglishKey extends infer K ? K extends `${infer Base}_${'one' | 'other'}` ? Base : K : never;
+export type Messages = Partial<Record<EnglishKey, string>>;
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+const de: Messages = {
+  searchPlaceholder: 'Personen suchen…',
+  addRow: 'Neue Zeile hinzufügen',
+  addStage: 'Stufe hinzufügen',
+  addToStage: '+ Genehmiger',
+  noRows: 'Keine Zeilen, unten klicken zum Hinzufügen',
+  noApprovers: 'Keine Genehmiger vorhanden',
+  noApproverSelected: 'Kein Genehmiger ausgewählt',
+  resolving: 'Wird geladen…',
+  searching: 'Suche läuft…',
+  noMatches: 'Keine Treffer',
+  minChars: 'Mindestens {count} Zeichen eingeben, um zu suchen',
+  suggestionsAvailable_one: '{count} Vorschlag verfügbar, mit Pfeil nach oben und unten durchgehen',
+  suggestionsAvailable_other: '{count} Vorschläge verfügbar, mit Pfeil nach oben und unten durchgehen',
+  suggestionsClosed: 'Vorschläge geschlossen',
+  suggestionsFor: 'Vorschläge für Genehmiger {order}',
+  approverLabel: 'Genehmiger {order}',
+  reorderApprover: 'Genehmiger {order} verschieben',
+  dragHandle: 'Ziehpunkt',
+  moveUp: 'Genehmiger {order} nach oben',
+  moveDown: 'Genehmiger {order} nach unten',
+  removeApprover: 'Genehmiger {order} entfernen',
+  upLabel: 'Nach oben',
+  downLabel: 'Nach unten',
+  removeLabel: 'Entfernen',
+  clearApprover: '{name} aus Genehmiger {order} entfernen',
+  group: 'Gruppe',
+  groupPrefix: 'Gruppe:',
+  external: 'Extern',
+  addExternal: '{email} als externe genehmigende Person hinzufügen',
+  externalInvalid: 'Geben Sie eine gültige E-Mail-Adresse ein, um eine externe genehmigende Person hinzuzufügen',
+  externalDomain: 'Externe genehmigende Personen müssen eine dieser Domänen verwenden: {domains}',
+  locked: 'Gesperrt',
+  lockedTitle: 'Von der Vorlage vorgegeben',
+  requiredByTemplate: 'Von der Vorlage {template} vorgegeben',
+  selected: '{name} als Genehmiger {order} ausgewählt',
+  cleared: 'Genehmiger {order} geleert',
+  rowAdded: 'Genehmiger {order} hinzugefügt',
+  rowRemoved: 'Genehmiger {order} entfernt',
+  movedToStage: 'Genehmiger in Stufe {stage} verschoben',
+  movedToPosition: 'Genehmiger an Position {position} verschoben',
+  movedToPositionInStage: 'Genehmiger an Position {position} in Stufe {stage} verschoben',
+  droppedAtOrigin: 'Genehmiger an der ursprünglichen Position abgelegt',
+  pickedUp: 'Genehmiger {order} aufgenommen. Mit Pfeil nach oben und unten verschieben, Leertaste zum Ablegen, Escape zum Abbrechen.',
+  dropBefore: 'Vor Genehmiger {order} ablegen',
+  dropAfter: 'Nach Genehmiger {order} ablegen',
+  dropBeforeInStage: 'Vor Genehmiger {order} in Stufe {stage} ablegen',
+  dropAfterInStage: 'Nach Genehmiger {order} in Stufe {stage} ablegen',
+  moveCancelled: 'Verschieben abgebrochen',
+  fieldFor: '{label} für Genehmiger {order}',
+  stage: 'Stufe {stage}',
+  modeAll: 'Alle müssen genehmigen',
+  modeAny: 'Einer genügt',
+  moveStageUp: 'Stufe nach oben',
+  moveStageDown: 'Stufe nach unten',
+  removeStage: 'Stufe entfernen',
+  savedRejected: '{detail} Die gespeicherten Genehmiger wurden nicht geladen.',
+  savedUnreadable: 'Die gespeicherten Genehmiger konnten nicht gelesen werden.',
+  statusUnreadable: 'Der Genehmigungsstatus konnte nicht gelesen werden.',
+  signIn: 'Anmelden, um Genehmiger zu laden',
+  signingIn: 'Anmeldung läuft…',
+  signInFailed: 'Anmeldung fehlgeschlagen: {detail}',
+  popupBlocked: 'Das Anmeldefenster wurde blockiert. Pop-ups für diese Website zulassen und erneut versuchen.',
+  detailsFailed: 'Details einiger Genehmiger konnten nicht geladen werden.',
+  searchFailed: 'Suche fehlgeschlagen: {detail}',
+  errorAuth: 'Ihre Anmeldung ist abgelaufen. Melden Sie sich erneut an, um fortzufahren.',
+  errorForbidden: 'Sie haben keine Berechtigung, das Verzeichnis zu durchsuchen. Bitten Sie einen Administrator, der App Zugriff zu gewähren.',
+  errorThrottled: 'Das Verzeichnis ist gerade ausgelastet. Versuchen Sie es gleich noch einmal.',
+  errorUnavailable: 'Das Verzeichnis hat nicht rechtzeitig geantwortet. Versuchen Sie es gleich noch einmal.',
+  errorOffline: 'Sie sind anscheinend offline. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+  minApprovers_one: 'Mindestens ein Genehmiger ist erforderlich.',
+  minApprovers_other: 'Mindestens {count} Genehmiger sind erforderlich.',
+  selfApproval: 'Sie können Ihre eigene Anfrage nicht genehmigen.',
+  duplicate: '{name} ist bereits Genehmiger {order}.',
+  columnsRequired_one: '{labels} ist erforderlich.',
+  columnsRequired_other: '{labels} sind erforderlich.',
+  emptyRow: 'Genehmiger auswählen oder diese Zeile entfernen.',
+  addingMembers: 'Mitglieder von {group} werden hinzugefügt…',
+  noNewMembers: '{group} hat keine Mitglieder, die nicht bereits Genehmiger sind.',
+  someMembersAdded: 'Nur {added} von {total} Mitgliedern von {group} wurden hinzugefügt (maximal {max} Zeilen).',
+  membersAdded: '{count} Mitglieder von {group} hinzugefügt',
+  membersFailed: 'Mitglieder von {group} konnten nicht hinzugefügt werden: {detail}',
+  template: 'Vorlage',
+  chooseTemplate: 'Vorlage auswählen…',
+  replaceRows: 'Zeilen ersetzen',
+  mergeRows: 'Mit Zeilen zusammenführen',
+  templatesFailed: 'Genehmigervorlagen konnten nicht geladen werden.',
+  templateOverflow_one: '{count} Genehmiger aus {template} wurde nicht hinzugefügt (maximal {max} Zeilen).',
+  templateOverflow_other: '{count} Genehmiger aus {template} wurden nicht hinzugefügt (maximal {max} Zeilen).',
+  templateApplied: 'Vorlage {template} angewendet',
+  requiredByRule: 'Von der Genehmigungsregel {rule} vorgegeben',
+  rulesNotice: 'Von Genehmigungsregeln vorgegeben: {rules}',
+  rulesApplied: 'Genehmiger durch Genehmigungsregeln aktualisiert: {rules}',
+  ruleOverflow_one: '{count} erforderlicher Genehmiger wurde nicht hinzugefügt (maximal {max} Zeilen).',
+  ruleOverflow_other: '{count} erforderliche Genehmiger wurden nicht hinzugefügt (maximal {max} Zeilen).',
+  addManagers: 'Meine Vorgesetzten hinzufügen',
+  noManagerSupport: 'Der gewählte Verzeichnisanbieter kann keine Vorgesetzten ermitteln.',
+  lookingUpManagers: 'Ihre Vorgesetztenkette wird ermittelt…',
+  noManager: 'Für Ihr Konto wurde kein Vorgesetzter gefunden.',
+  managersOverflow_one: '{count} Vorgesetzter wurde nicht hinzugefügt (maximal {max} Zeilen).',
+  managersOverflow_other: '{count} Vorgesetzte wurden nicht hinzugefügt (maximal {max} Zeilen).',
+  managersAdded_one: '{count} Vorgesetzter hinzugefügt',
+  managersAdded_other: '{count} Vorgesetzte hinzugefügt',
+  alreadySelected: '{count} bereits ausgewählt',
+  managersFailed: 'Ihre Vorgesetztenkette konnte nicht ermittelt werden: {detail}',
+  progressRejected: 'Abgelehnt',
+  progressApproved: 'Genehmigt',
+  progressInProgress: 'In Bearbeitung',
+  progressCount: '{approved} von {total} genehmigt',
+  awaitingDecision: 'Entscheidung ausstehend',
+  pending: 'Ausstehend',
+  away: 'Abwesend',
+  awayUntil: 'Abwesend bis {date}',
+  isAway: '{name} ist abwesend',
+  isAwayUntil: '{name} ist abwesend bis {date}',
+  backup: 'Vertretung:',
+  backupSearch: 'Vertretung suchen…',
+  backupFor: 'Vertretung für Genehmiger {order}',
+  removeBackup: 'Vertretung {name} von Genehmiger {order} entfernen',
+  addBackupFor: 'Vertretung für Genehmiger {order} hinzufügen',
+  addBackup: '+ Vertretung',
+  chooseBackup: 'Vertretung auswählen',
+  suggestedBackup: 'Vorgeschlagene Vertretung: {name}',
+  useAsBackup: 'Als Vertretung verwenden',
+  backupSame: 'Die Vertretung muss eine andere Person als der Genehmiger sein.',
+  backupSet: '{name} als Vertretung für Genehmiger {order} festgelegt',
+  backupRemoved: 'Vertretung von Genehmiger {order} entfernt',
+  bulkAdd: 'Mehrere hinzufügen',
+  exportCsv: 'CSV exportieren',
+  bulkTitle: 'Mehrere Genehmiger hinzufügen',
+  bulkHint: 'Namen oder E-Mail-Adressen einfügen, z. B. aus der An-Zeile in Outlook, eine pro Zeile oder durch Kommas getrennt',
+  bulkUpload: 'Oder eine CSV-Datei hochladen',
+  preview: 'Vorschau',
+  cancel: 'Abbrechen',
+  back: 'Zurück',
+  bulkNothing: 'Es wurden keine Namen oder E-Mail-Adressen gefunden.',
+  bulkFileFailed: '{file} konnte nicht gelesen werden: {detail}',
+  bulkLookingUp: 'Genehmiger werden gesucht…',
+  bulkReady: '{chosen} von {total} bereit. Platz für {room} weitere (maximal {max}).',
+  importPending: 'Wird gesucht…',
+  importResolved: 'Gefunden',
+  importAmbiguous: 'Mehrere Treffer',
+  importNotFound: 'Nicht gefunden',
+  chooseWho: 'Auswählen, wer {entry} ist',
+  choose: 'Auswählen…',
+  bulkConfirm_one: '{count} Genehmiger hinzufügen',
+  bulkConfirm_other: '{count} Genehmiger hinzufügen',
+  approversAdded_one: '{count} Genehmiger hinzugefügt',
+  approversAdded_other: '{count} Genehmiger hinzugefügt',
+  alreadyChosen: '{count} bereits ausgewählt',
+  notAddedMax: '{count} nicht hinzugefügt (maximal {max} Zeilen)',
+};
+
+const esMX: Messages = {
+  searchPlaceholder: 'Buscar personas…',
+  addRow: 'Agregar fila',
+  addStage: 'Agregar etapa',
+  addToStage: '+ Aprobador',
+  noRows: 'No hay filas, haz clic abajo para agregar',
+  noApprovers: 'No hay aprobadores para mostrar',
+  noApproverSelected: 'Ningún aprobador seleccionado',
+  resolving: 'Cargando…',
+  searching: 'Buscando…',
+  noMatches: 'Sin resultados',
+  minChars: 'Escribe al menos {count} caracteres para buscar',
+  suggestionsAvailable_one: '{count} sugerencia disponible, usa las flechas arriba y abajo para revisarla',
+  suggestionsAvailable_other: '{count} sugerencias disponibles, usa las flechas arriba y abajo para revisarlas',
+  suggestionsClosed: 'Sugerencias cerradas',
+  suggestionsFor: 'Sugerencias para el aprobador {order}',
+  approverLabel: 'Aprobador {order}',
+  reorderApprover: 'Reordenar aprobador {order}',
+  dragHandle: 'control de arrastre',
+  moveUp: 'Subir aprobador {order}',
+  moveDown: 'Bajar aprobador {order}',
+  removeApprover: 'Quitar aprobador {order}',
+  upLabel: 'Subir',
+  downLabel: 'Bajar',
+  removeLabel: 'Quitar',
+  clearApprover: 'Quitar a {name} del aprobador {order}',
+  group: 'Grupo',
+  groupPrefix: 'Grupo:',
+  external: 'Externo',
+  addExternal: 'Agregar {email} como aprobador externo',
+  externalInvalid: 'Escribe un correo electrónico válido para agregar un aprobador externo',
+  externalDomain: 'Los aprobadores externos deben usar uno de estos dominios: {domains}',
+  locked: 'Bloqueado',
+  lockedTitle: 'Requerido por la plantilla',
+  requiredByTemplate: 'Requerido por la plantilla {template}',
+  selected: '{name} seleccionado como aprobador {order}',
+  cleared: 'Aprobador {order} borrado',
+  rowAdded: 'Aprobador {order} agregado',
+  rowRemoved: 'Aprobador {order} quitado',
+  movedToStage: 'Aprobador movido a la etapa {stage}',
+  movedToPosition: 'Aprobador movido a la posición {position}',
+  movedToPositionInStage: 'Aprobador movido a la posición {position} de la etapa {stage}',
+  droppedAtOrigin: 'Aprobador soltado en su posición original',
+  pickedUp: 'Aprobador {order} tomado. Usa las flechas arriba y abajo para moverlo, Espacio para soltarlo y Escape para cancelar.',
+  dropBefore: 'Soltar antes del aprobador {order}',
+  dropAfter: 'Soltar después del aprobador {order}',
+  dropBeforeInStage: 'Soltar antes del aprobador {order} en la etapa {stage}',
+  dropAfterInStage: 'Soltar después del aprobador {order} en la etapa {stage}',
+  moveCancelled: 'Movimiento cancelado',
+  fieldFor: '{label} del aprobador {order}',
+  stage: 'Etapa {stage}',
+  modeAll: 'Todos deben aprobar',
+  modeAny: 'Basta con uno',
+  moveStageUp: 'Subir etapa',
+  moveStageDown: 'Bajar etapa',
+  removeStage: 'Quitar etapa',
+  savedRejected: '{detail} No se cargaron los aprobadores guardados.',
+  savedUnreadable: 'No se pudieron leer los aprobadores guardados.',
+  statusUnreadable: 'No se pudo leer el estado de aprobación.',
+  signIn: 'Inicia sesión para cargar los aprobadores',
+  signingIn: 'Iniciando sesión…',
+  signInFailed: 'No se pudo iniciar sesión: {detail}',
+  popupBlocked: 'Se bloqueó la ventana emergente de inicio de sesión. Permite las ventanas emergentes para este sitio e inténtalo de nuevo.',
+  detailsFailed: 'No se pudieron cargar los datos de algunos aprobadores.',
+  searchFailed: 'La búsqueda falló: {detail}',
+  errorAuth: 'Tu sesión expiró. Vuelve a iniciar sesión para continuar.',
+  errorForbidden: 'No tienes permiso para buscar en el directorio. Pide a un administrador que le dé acceso a la aplicación.',
+  errorThrottled: 'El directorio está ocupado en este momento. Vuelve a intentarlo en un momento.',
+  errorUnavailable: 'El directorio no respondió a tiempo. Vuelve a intentarlo en un momento.',
+  errorOffline: 'Parece que no tienes conexión. Revisa tu conexión y vuelve a intentarlo.',
+  minApprovers_one: 'Se requiere al menos un aprobador.',
+  minApprovers_other: 'Se requieren al menos {count} aprobadores.',
+  selfApproval: 'No puedes ser aprobador de tu propia solicitud.',
+  duplicate: '{name} ya es el aprobador {order}.',
+  columnsRequired_one: '{labels} es obligatorio.',
+  columnsRequired_other: '{labels} son obligatorios.',
+  emptyRow: 'Elige un aprobador o quita esta fila.',
+  addingMembers: 'Agregando miembros de {group}…',
+  noNewMembers: '{group} no tiene miembros que no sean ya aprobadores.',
+  someMembersAdded: 'Solo se agregaron {added} de {total} miembros de {group} (máximo {max} filas).',
+  membersAdded: 'Se agregaron {count} miembros de {group}',
+  membersFailed: 'No se pudieron agregar los miembros de {group}: {detail}',
+  template: 'Plantilla',
+  chooseTemplate: 'Elige una plantilla…',
+  replaceRows: 'Reemplazar filas',
+  mergeRows: 'Combinar con las filas',
+  templatesFailed: 'No se pudieron cargar las plantillas de aprobadores.',
+  templateOverflow_one: 'No se agregó {count} aprobador de {template} (máximo {max} filas).',
+  templateOverflow_other: 'No se agregaron {count} aprobadores de {template} (máximo {max} filas).',
+  templateApplied: 'Plantilla {template} aplicada',
+  requiredByRule: 'Requerido por la regla de aprobación {rule}',
+  rulesNotice: 'Requerido por reglas de aprobación: {rules}',
+  rulesApplied: 'Aprobadores actualizados por reglas de aprobación: {rules}',
+  ruleOverflow_one: 'No se agregó {count} aprobador requerido (máximo {max} filas).',
+  ruleOverflow_other: 'No se agregaron {count} aprobadores requeridos (máximo {max} filas).',
+  addManagers: 'Agregar a mis jefes',
+  noManagerSupport: 'El proveedor de directorio seleccionado no puede consultar jefes.',
+  lookingUpManagers: 'Consultando tu cadena de jefes…',
+  noManager: 'No se encontró un jefe para tu cuenta.',
+  managersOverflow_one: 'No se agregó {count} jefe (máximo {max} filas).',
+  managersOverflow_other: 'No se agregaron {count} jefes (máximo {max} filas).',
+  managersAdded_one: 'Se agregó {count} jefe',
+  managersAdded_other: 'Se agregaron {count} jefes',
+  alreadySelected: '{count} ya seleccionados',
+  managersFailed: 'No se pudo consultar tu cadena de jefes: {detail}',
+  progressRejected: 'Rechazada',
+  progressApproved: 'Aprobada',
+  progressInProgress: 'En curso',
+  progressCount: '{approved} de {total} aprobaron',
+  awaitingDecision: 'Esperando decisión',
+  pending: 'Pendiente',
+  away: 'Ausente',
+  awayUntil: 'Ausente hasta el {date}',
+  isAway: '{name} está ausente',
+  isAwayUntil: '{name} está ausente hasta el {date}',
+  backup: 'Suplente:',
+  backupSearch: 'Buscar suplente…',
+  backupFor: 'Suplente del aprobador {order}',
+  removeBackup: 'Quitar al suplente {name} del aprobador {order}',
+  addBackupFor: 'Agregar un suplente al aprobador {order}',
+  addBackup: '+ Suplente',
+  chooseBackup: 'Elegir un suplente',
+  suggestedBackup: 'Suplente sugerido: {name}',
+  useAsBackup: 'Usar como suplente',
+  backupSame: 'El suplente debe ser una persona distinta del aprobador.',
+  backupSet: '{name} asignado como suplente del aprobador {order}',
+  backupRemoved: 'Suplente quitado del aprobador {order}',
+  bulkAdd: 'Agregar varios',
+  exportCsv: 'Exportar CSV',
+  bulkTitle: 'Agregar varios aprobadores',
+  bulkHint: 'Pega nombres o correos, por ejemplo de la línea Para de Outlook, uno por línea o separados por comas',
+  bulkUpload: 'O sube un archivo CSV',
+  preview: 'Vista previa',
+  cancel: 'Cancelar',
+  back: 'Atrás',
+  bulkNothing: 'No se encontraron nombres ni correos.',
+  bulkFileFailed: 'No se pudo leer {file}: {detail}',
+  bulkLookingUp: 'Buscando aprobadores…',
+  bulkReady: '{chosen} de {total} listos para agregar. Hay lugar para {room} más (máximo {max}).',
+  importPending: 'Buscando…',
+  importResolved: 'Encontrado',
+  importAmbiguous: 'Varias coincidencias',
+  importNotFound: 'No encontrado',
+  chooseWho: 'Elige quién es {entry}',
+  choose: 'Elegir…',
+  bulkConfirm_one: 'Agregar {count} aprobador',
+  bulkConfirm_other: 'Agregar {count} aprobadores',
+  approversAdded_one: 'Se agregó {count} aprobador',
+  approversAdded_other: 'Se agregaron {count} aprobadores',
+  alreadyChosen: '{count} ya elegidos',
+  notAddedMax: '{count} sin agregar (máximo {max} filas)',
+};
+
+const zhTW: Messages = {
+  searchPlaceholder: '搜尋人員…',
+  addRow: '新增一列',
+  addStage: '新增階段',
+  addToStage: '+ 核准者',
+  noRows: '目前沒有任何列，請按下方按鈕新增',
+  noApprovers: '沒有可顯示的核准者',
+  noApproverSelected: '尚未選取核准者',
+  resolving: '載入中…',
+  searching: '搜尋中…',
+  noMatches: '找不到符合的結果',
+  minChars: '請至少輸入 {count} 個字元以搜尋',
+  suggestionsAvailable_other: '有 {count} 個建議，請使用上下方向鍵瀏覽',
+  suggestionsClosed: '已關閉建議',
+  suggestionsFor: '核准者 {order} 的建議',
+  approverLabel: '核准者 {order}',
+  reorderApprover: '調整核准者 {order} 的順序',
+  dragHandle: '拖曳控點',
+  moveUp: '將核准者 {order} 上移',
+  moveDown: '將核准者 {order} 下移',
+  removeApprover: '移除核准者 {order}',
+  upLabel: '上移',
+  downLabel: '下移',
+  removeLabel: '移除',
+  clearApprover: '從核准者 {order} 清除 {name}',
+  group: '群組',
+  groupPrefix: '群組：',
+  external: '外部',
+  addExternal: '將 {email} 新增為外部核准者',
+  externalInvalid: '請輸入有效的電子郵件地址以新增外部核准者',
+  externalDomain: '外部核准者必須使用下列其中一個網域：{domains}',
+  locked: '已鎖定',
+  lockedTitle: '範本指定的核准者',
+  requiredByTemplate: '範本 {template} 指定的核准者',
+  selected: '已選取 {name} 為核准者 {order}',
+  cleared: '已清除核准者 {order}',
+  rowAdded: '已新增核准者 {order}',
+  rowRemoved: '已移除核准者 {order}',
+  movedToStage: '已將核准者移至階段 {stage}',
+  movedToPosition: '已將核准者移至第 {position} 位',
+  movedToPositionInStage: '已將核准者移至階段 {stage} 的第 {position} 位',
+  droppedAtOrigin: '核准者已放回原位',
+  pickedUp: '已拿起核准者 {order}。使用上下方向鍵移動，按空白鍵放下，按 Esc 取消。',
+  dropBefore: '放在核准者 {order} 之前',
+  dropAfter: '放在核准者 {order} 之後',
+  dropBeforeInStage: '放在階段 {stage} 的核准者 {order} 之前',
+  dropAfterInStage: '放在階段 {stage} 的核准者 {order} 之後',
+  moveCancelled: '已取消移動',
+  fieldFor: '核准者 {order} 的{label}',
+  stage: '階段 {stage}',
+  modeAll: '全部核准',
+  modeAny: '任一人核准',
+  moveStageUp: '階段上移',
+  moveStageDown: '階段下移',
+  removeStage: '移除階段',
+  savedRejected: '{detail} 未載入已儲存的核准者。',
+  savedUnreadable: '無法讀取已儲存的核准者。',
+  statusUnreadable: '無法讀取核准狀態。',
+  signIn: '登入以載入核准者',
+  signingIn: '登入中…',
+  signInFailed: '登入失敗：{detail}',
+  popupBlocked: '登入快顯視窗遭到封鎖。請允許此網站的快顯視窗後再試一次。',
+  detailsFailed: '無法載入部分核准者的詳細資料。',
+  searchFailed: '搜尋失敗：{detail}',
+  errorAuth: '您的登入已過期。請重新登入以繼續。',
+  errorForbidden: '您沒有搜尋目錄的權限。請洽系統管理員授與應用程式存取權。',
+  errorThrottled: '目錄目前忙碌中。請稍後再試。',
+  errorUnavailable: '目錄未能及時回應。請稍後再試。',
+  errorOffline: '您似乎已離線。請檢查網路連線後再試一次。',
+  minApprovers_one: '至少需要一位核准者。',
+  minApprovers_other: '至少需要 {count} 位核准者。',
+  selfApproval: '您不能擔任自己申請的核准者。',
+  duplicate: '{name} 已經是核准者 {order}。',
+  columnsRequired_other: '{labels} 為必填。',
+  emptyRow: '請選擇核准者或移除此列。',
+  addingMembers: '正在新增 {group} 的成員…',
+  noNewMembers: '{group} 沒有尚未擔任核准者的成員。',
+  someMembersAdded: '只新增了 {group} 的 {total} 位成員中的 {added} 位（最多 {max} 列）。',
+  membersAdded: '已新增 {group} 的 {count} 位成員',
+  membersFailed: '無法新增 {group} 的成員：{detail}',
+  template: '範本',
+  chooseTemplate: '選擇範本…',
+  replaceRows: '取代所有列',
+  mergeRows: '合併至現有列',
+  templatesFailed: '無法載入核准者範本。',
+  templateOverflow_other: '{template} 中有 {count} 位核准者未新增（最多 {max} 列）。',
+  templateApplied: '已套用範本 {template}',
+  requiredByRule: '核准規則 {rule} 指定的核准者',
+  rulesNotice: '核准規則要求：{rules}',
+  rulesApplied: '核准規則已更新核准者：{rules}',
+  ruleOverflow_other: '有 {count} 位必要核准者未新增（最多 {max} 列）。',
+  addManagers: '新增我的主管',
+  noManagerSupport: '所選的目錄提供者無法查詢主管。',
+  lookingUpManagers: '正在查詢您的主管層級…',
+  noManager: '找不到您帳戶的主管。',
+  managersOverflow_other: '有 {count} 位主管未新增（最多 {max} 列）。',
+  managersAdded_other: '已新增 {count} 位主管',
+  alreadySelected: '{count} 位已選取',
+  managersFailed: '無法查詢您的主管層級：{detail}',
+  progressRejected: '已駁回',
+  progressApproved: '已核准',
+  progressInProgress: '進行中',
+  progressCount: '{total} 位中已有 {approved} 位核准',
+  awaitingDecision: '等待決定',
+  pending: '待處理',
+  away: '不在辦公室',
+  awayUntil: '不在辦公室，直到 {date}',
+  isAway: '{name} 不在辦公室',
+  isAwayUntil: '{name} 不在辦公室，直到 {date}',
+  backup: '代理人：',
+  backupSearch: '搜尋代理人…',
+  backupFor: '核准者 {order} 的代理人',
+  removeBackup: '從核准者 {order} 移除代理人 {name}',
+  addBackupFor: '為核准者 {order} 新增代理人',
+  addBackup: '+ 代理人',
+  chooseBackup: '選擇代理人',
+  suggestedBackup: '建議代理人：{name}',
+  useAsBackup: '設為代理人',
+  backupSame: '代理人必須是核准者以外的人。',
+  backupSet: '已將 {name} 設為核准者 {order} 的代理人',
+  backupRemoved: '已移除核准者 {order} 的代理人',
+  bulkAdd: '批次新增',
+  exportCsv: '匯出 CSV',
+  bulkTitle: '批次新增核准者',
+  bulkHint: '貼上姓名或電子郵件地址，例如 Outlook 的收件者欄位，每行一個或以逗號分隔',
+  bulkUpload: '或上傳 CSV 檔案',
+  preview: '預覽',
+  cancel: '取消',
+  back: '上一步',
+  bulkNothing: '找不到任何姓名或電子郵件地址。',
+  bulkFileFailed: '無法讀取 {file}：{detail}',
+  bulkLookingUp: '正在查詢核准者…',
+  bulkReady: '{total} 筆中有 {chosen} 筆可新增。尚可新增 {room} 位（最多 {max} 位）。',
+  importPending: '查詢中…',
+  importResolved: '已找到',
+  importAmbiguous: '多筆符合',
+  importNotFound: '找不到',
+  chooseWho: '選擇 {entry} 是哪一位',
+  choose: '選擇…',
+  bulkConfirm_other: '新增 {count} 位核准者',
+  approversAdded_other: '已新增 {count} 位核准者',
+  alreadyChosen: '{count} 位已選取',
+  notAddedMax: '{count} 位未新增（最多 {max} 列）',
+};
+
+const bundles: Record<string, Messages> = { en, de, 'es-MX': esMX, 'zh-TW': zhTW };
+
+// Scripts written right to left; only the language subtag matters
+const RTL_LANGUAGES = ['ar', 'he', 'iw', 'fa', 'ur', 'ps', 'yi', 'dv', 'ug', 'ckb', 'sd'];
+
+// ======= Locale selection =======
+// Best bundled locale for the requested ones: exact tag, then the same language
+// (es-AR uses es-MX). Chinese only falls back to zh-TW for Traditional script regions.
+export function pickBundle(requested: string[]): string {
+  const available = Object.keys(bundles);
+  for (const tag of requested.filter(Boolean)) {
+    const lower = tag.toLowerCase();
+    const exact = available.find(a => a.toLowerCase() === lower);
+    if (exact) return exact;
+    const [language] = lower.split('-');
+    if (language === 'zh') {
+      if (/-(hant|tw|hk|mo)\b/.test(lower)) return 'zh-TW';
+      continue;
+    }
+    const sameLanguage = available.find(a => a.toLowerCase().split('-')[0] === language);
+    if (sameLanguage) return sameLanguage;
+  }
+  return 'en';
+}
+
+export function isRtl(locale: string): boolean {
+  return RTL_LANGUAGES.includes((locale || '').toLowerCase().split('-')[0]);
+}
+
+// Designer overrides: { "addRow": "Add approver" } for every locale, or per locale
+// { "de": { "addRow": "Genehmiger hinzufügen" } }; per-locale entries win.
+export function parseOverrides(json: string | undefined | null, locale: string): Messages {
+  if (!json || !json.trim()) return {};
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    console.warn('Message overrides are not valid JSON, ignoring them');
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+  const shared = Object.fromEntries(Object.entries(parsed).filter(([, v]) => typeof v === 'string'));
+  const lower = (locale || '').toLowerCase();
+  const scoped = Object.entries(parsed)
+    .filter(([k, v]) => v && typeof v === 'object' && [lower, lower.split('-')[0]].includes(k.toLowerCase()))
+    .sort(([a], [b]) => a.length - b.length)
+    .map(([, v]) => v as Messages);
+  return Object.assign({}, shared, ...scoped);
+}
+
+// ======= Translation =======
+// locale is the requested tag (used for plurals and formatting); bundle is the catalog to read
+export function createTranslator(locale: string, overrides: Messages = {}): Translate {
+  const bundle = bundles[pickBundle([locale])];
+  let plurals: Intl.PluralRules;
+  try {
+    plurals = new Intl.PluralRules(locale || 'en');
+  } catch {
+    plurals = new Intl.PluralRules('en');
+  }
+  const layers = [overrides, bundle, en] as Array<Record<string, string | undefined>>;
+  return (key, params = {}) => {
+    const category = typeof params.count === 'number' ? plurals.select(params.count) : null;
+    // The first layer that has the message in any form wins, so a bundle's plural
+    // forms are never mixed with English ones
+    let message: string | undefined;
+    for (const layer of layers) {
+      message = (category ? layer[`${key}_${category}`] ?? layer[`${key}_other`] : undefined) ?? layer[key];
+      if (message !== undefined) break;
+    }
+    return (message ?? key).replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+  };
+}
+
+export const english: Translate = createTranslator('en');
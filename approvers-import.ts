@@ -0,0 +1,145 @@
+// Bulk import and export of approvers: pasted Outlook recipient strings, plain lists and CSV.
+
+import type { ApproverRow, Person } from './approvers-schema.js';
+import type { ColumnDef } from './approvers-columns.js';
+
+// One pasted or uploaded entry; at least one of name and email is set
+export type ImportEntry = { raw: string; name?: string; email?: string };
+
+export type ImportStatus = 'pending' | 'resolved' | 'ambiguous' | 'not-found';
+
+export type ImportPreview = ImportEntry & {
+  status: ImportStatus;
+  person?: Person; // resolved, or the candidate chosen for an ambiguous entry
+  candidates?: Person[];
+};
+
+const EMAIL = /[^\s<>"';,]+@[^\s<>"';,]+\.[^\s<>"';,]+/;
+
+// ======= Pasted text =======
+// Accepts "Jane Doe <jane@contoso.com>; John <john@contoso.com>", one entry per line,
+// comma lists, bare addresses and bare names.
+export function parseBulkText(text: string): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  // Commas inside quoted Outlook names ("Doe, Jane" <jane@contoso.com>) are not separators
+  const parts = (text || '').match(/("[^"]*"|[^;,\n\r])+/g) || [];
+  for (const part of parts) {
+    const raw = part.trim();
+    if (!raw) continue;
+    const angle = raw.match(/^(.*?)<([^>]+)>\s*$/);
+    if (angle) {
+      entries.push({ raw, name: unquote(angle[1]) || undefined, email: angle[2].trim() });
+      continue;
+    }
+    const email = raw.match(EMAIL)?.[0];
+    entries.push(email ? { raw, email } : { raw, name: unquote(raw) });
+  }
+  return dedupe(entries);
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, '').trim();
+}
+
+function dedupe(entries: ImportEntry[]): ImportEntry[] {
+  const seen = new Set<string>();
+  return entries.filter(e => {
+    const key = (e.email || e.name || '').toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// ======= CSV =======
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const src = (text || '').replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',' || c === ';' || c === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+// Uses "email"/"approver"/"login" and "name"/"displayName" headers when present,
+// otherwise the first cell that looks like an address
+export function parseCsv(text: string): ImportEntry[] {
+  const rows = parseCsvRows(text);
+  if (!rows.length) return [];
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const emailCol = header.findIndex(h => ['email', 'mail', 'e-mail', 'approver', 'login', 'upn', 'email address'].includes(h));
+  const nameCol = header.findIndex(h => ['name', 'displayname', 'display name', 'full name'].includes(h));
+  const hasHeader = emailCol >= 0 || nameCol >= 0;
+  const entries = (hasHeader ? rows.slice(1) : rows).map((r): ImportEntry | null => {
+    const cells = r.map(c => unguardFormula(c.trim()));
+    const email = hasHeader && emailCol >= 0 ? cells[emailCol] : cells.find(c => EMAIL.test(c));
+    const name = hasHeader && nameCol >= 0 ? cells[nameCol] : cells.find(c => c && !EMAIL.test(c));
+    if (!email && !name) return null;
+    return { raw: cells.filter(Boolean).join(', '), name: name || undefined, email: email || undefined };
+  });
+  return dedupe(entries.filter((e): e is ImportEntry => !!e));
+}
+
+// Spreadsheets run cells starting with these as formulas; a leading ' keeps them text
+const FORMULA_START = /^[=+\-@]/;
+
+function unguardFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+// Quotes every separator parseCsvRows accepts, so exported files read back the same
+function csvCell(value: unknown): string {
+  const raw = value == null ? '' : String(value);
+  const text = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",;\t\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: ApproverRow[], people: Record<number, Person | null>, columns: ColumnDef[]): string {
+  const header = ['order', 'stage', 'approver', 'name', 'email', 'type', ...columns.map(c => c.key), 'backup'];
+  const lines = [header];
+  rows.forEach((row, i) => {
+    if (!row.approver) return;
+    const p = people[i];
+    lines.push([
+      String(row.order),
+      String(row.stage),
+      row.approver,
+      p?.displayName || '',
+      p?.email || '',
+      row.principalType || 'user',
+      ...columns.map(c => row.fields?.[c.key] || ''),
+      row.backup?.login || '',
+    ]);
+  });
+  return lines.map(l => l.map(csvCell).join(',')).join('\r\n');
+}
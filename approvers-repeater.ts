@@ -2,33 +2,89 @@ import { LitElement, html, css, nothing } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import type { PluginContract, PropType } from '@nintex/form-plugin-contract';
 import { PublicClientApplication, type AccountInfo } from '@azure/msal-browser';
+import { ApproversSchemaError, parseApprovers, serializeApprovers, type ApproverRow, type Person, type Stage, type StageMode } from './approvers-schema.js';
+import { cachePerson, getCachedPerson } from './person-cache.js';
+import { initials, loadPhoto, releasePhoto } from './person-photos.js';
+import { awayNotice, plainText, type AwayNotice } from './approvers-availability.js';
+import { parseBulkText, parseCsv, toCsv, type ImportEntry, type ImportPreview } from './approvers-import.js';
+import { createTranslator, isRtl, parseOverrides, type Translate } from './approvers-i18n.js';
+import { TargetTextbox } from './approvers-target.js';
+import { findMatch } from './directory-ranking.js';
+import { isAbortError, LruCache, RequestError } from './directory-requests.js';
+import { validateApprovers, type ValidationResult } from './approvers-validation.js';
+import { fetchTemplates, parseTemplates, type ApproverTemplate } from './approvers-templates.js';
+import { formatColumnValue, parseColumns, type ColumnDef } from './approvers-columns.js';
+import { computeProgress, parseOutcomes, type ApprovalOutcome } from './approvers-status.js';
+import { buildScope, parseDomains, parseList, type DirectoryScope } from './directory-scope.js';
+import { externalPerson, externalProblem } from './approvers-external.js';
+import { evaluateRules, parseRules, ruleFields, type ApprovalRule } from './approvers-rules.js';
+import { FormFieldWatcher } from './approvers-form-fields.js';
+import { clampTop, GraphDirectoryProvider, SharePointDirectoryProvider, SignInRequiredError, StaticDirectoryProvider, type DirectoryProvider, type DirectoryProviderKind, type GraphEndpoint } from './directory-providers.js';
 
-type Person = {
-  id: string;
-  displayName: string;
-  email?: string;
-  login: string; // UPN or mail
-};
+const DEFAULT_AUTHORITY_HOST = 'https://login.microsoftonline.com';
+const DEFAULT_GRAPH_BASE = 'https://graph.microsoft.com';
 
-type GraphUser = { id: string; displayName: string; userPrincipalName?: string; mail?: string; };
+// edit: the editable list. readonly: the same layout, disabled (Nintex Read-only). display: the read-only view
+type FormMode = 'edit' | 'readonly' | 'display';
+
+// Where a dragged row lands: before or after the row at `index`, joining that row's stage
+type DropTarget = { index: number; after: boolean };
 
 @customElement('approvers-repeater')
 export default class ApproversRepeater extends LitElement {
   // ======= CONTRACT =======
   static getMetaConfig(): PluginContract {
     const pluginProperties = {
+      directoryProvider: { type: 'string', title: 'Directory provider', enum: ['graph', 'sharepoint', 'static'], defaultValue: 'graph', description: 'graph: Microsoft Graph with the Azure AD app below. sharepoint: the site people picker with the current session. static: the JSON list below.' },
+      sharePointSiteUrl: { type: 'string', title: 'SharePoint site URL', defaultValue: '', description: 'Site used by the sharepoint provider. Defaults to the current site.' },
+      staticDirectoryJson: { type: 'string', title: 'Static directory (JSON)', defaultValue: '', description: 'People for the static provider, e.g. [{"displayName":"Jane Doe","email":"jane@contoso.com"}]' },
       clientId: { type: 'string', title: 'Azure AD App Client ID', defaultValue: '' },
       tenantId: { type: 'string', title: 'Tenant ID (GUID) or "common"', defaultValue: 'common' },
       redirectOrigin: { type: 'string', title: 'Redirect origin (must be in app registration)', defaultValue: '' },
-      graphEndpoint: { type: 'string', title: 'Graph endpoint', enum: ['me.people', 'users'], defaultValue: 'me.people' },
+      signInFlow: { type: 'string', title: 'Sign-in flow', enum: ['popup', 'redirect'], defaultValue: 'popup', description: 'How the Sign in button signs the user in when silent sign-in is not possible. redirect leaves the page, so unsaved form changes are lost.' },
+      loginHint: { type: 'string', title: 'Sign-in hint (current user email)', defaultValue: '', description: 'Bind to the current user\'s email so sign-in can happen silently. Defaults to the SharePoint user when available.' },
+      authorityHost: { type: 'string', title: 'Authority host', defaultValue: DEFAULT_AUTHORITY_HOST, description: 'Change for sovereign clouds, e.g. https://login.microsoftonline.us' },
+      graphBaseUrl: { type: 'string', title: 'Graph base URL', defaultValue: DEFAULT_GRAPH_BASE, description: 'Change for sovereign clouds, e.g. https://graph.microsoft.us' },
+      graphEndpoint: { type: 'string', title: 'Graph endpoint', enum: ['me.people', 'users', 'combined'], defaultValue: 'me.people', description: 'me.people: people you work with, ranked by relevance. users: the whole directory. combined: both, merged and ranked (needs User.ReadBasic.All).' },
       scopesCsv: { type: 'string', title: 'Scopes (comma-separated)', defaultValue: 'People.Read,User.Read' },
       maxSuggestions: { type: 'number', title: 'Max suggestions', defaultValue: 8 },
       minChars: { type: 'number', title: 'Min chars to search', defaultValue: 2 },
       minRows: { type: 'number', title: 'Minimum Rows', defaultValue: 1 },
       maxRows: { type: 'number', title: 'Maximum Rows', defaultValue: 10 },
       value: { type: 'string', title: 'Approvers Data', isValueField: true },
-      jsonTargetId: { type: 'string', title: 'JSON Target Textbox ID', defaultValue: '', description: 'ID of the multiline textbox to receive the JSON output' },
-      forceEditable: { type: 'boolean', title: 'Force Editable Mode', defaultValue: false },
+      jsonTargetId: { type: 'string', title: 'JSON Target Textbox ID', defaultValue: '', description: 'ID (or data-controlid) of the multiline textbox to receive the JSON output. The textbox is hidden and kept in sync automatically.' },
+      statusTargetId: { type: 'string', title: 'Approval Status Textbox ID', defaultValue: '', description: 'ID of the multiline textbox where the workflow writes each approver\'s status, timestamp and comment. Shown in display mode.' },
+      forceEditable: { type: 'string', title: 'Editable when', defaultValue: '', description: 'Leave blank to follow the form mode, or bind an expression such as [Form mode].[Is New mode]: true shows the editable list, false the read-only view.' },
+      allowedDomains: { type: 'string', title: 'Allowed email domains', defaultValue: '', description: 'Comma-separated domains people must belong to, e.g. contoso.com. Leave blank to allow every domain.' },
+      excludedDomains: { type: 'string', title: 'Excluded email domains', defaultValue: '', description: 'Comma-separated domains that are never suggested.' },
+      allowedDepartments: { type: 'string', title: 'Allowed departments', defaultValue: '', description: 'Comma-separated department names. Leave blank to allow every department.' },
+      allowedCompanies: { type: 'string', title: 'Allowed companies', defaultValue: '', description: 'Comma-separated company names. Leave blank to allow every company.' },
+      excludeDisabledAccounts: { type: 'boolean', title: 'Exclude disabled accounts', defaultValue: false, description: 'Requires User.Read.All in the scopes.' },
+      excludeGuests: { type: 'boolean', title: 'Exclude guest accounts', defaultValue: false },
+      allowExternal: { type: 'boolean', title: 'Allow external approvers by email', defaultValue: false, description: 'When nobody in the directory matches, a typed email address can be added. It is saved with "external": true so the workflow can send an external approval task.' },
+      externalDomains: { type: 'string', title: 'Allowed external domains', defaultValue: '', description: 'Comma-separated domains external approvers must belong to, e.g. fabrikam.com. Leave blank to allow every domain.' },
+      externalGuestLookup: { type: 'boolean', title: 'Look up guest accounts first', defaultValue: false, description: 'Offers an existing B2B guest with the typed address before adding it as external. Graph needs User.ReadBasic.All in the scopes.' },
+      groupMode: { type: 'string', title: 'Groups as approvers', enum: ['none', 'group', 'expand'], defaultValue: 'none', description: 'none: people only. group: a picked group is stored as one approver. expand: a picked group is replaced by its members. Graph needs GroupMember.Read.All in the scopes.' },
+      noDuplicateApprovers: { type: 'boolean', title: 'Block duplicate approvers', defaultValue: true },
+      noSelfApproval: { type: 'boolean', title: 'Block self-approval', defaultValue: false, description: 'The signed-in user cannot pick themselves.' },
+      requireFilledRows: { type: 'boolean', title: 'Every row must have an approver', defaultValue: false },
+      minFilledRows: { type: 'number', title: 'Minimum approvers', defaultValue: 0, description: 'Number of rows that must have an approver before the form can be submitted.' },
+      showManagerChain: { type: 'boolean', title: 'Show "Add my managers" button', defaultValue: false, description: 'Fills rows from the requester\'s management chain.' },
+      managerChainDepth: { type: 'number', title: 'Management chain depth', defaultValue: 3 },
+      managerChainStopTitles: { type: 'string', title: 'Stop at job titles', defaultValue: '', description: 'Comma-separated job titles, e.g. VP, Vice President. The first manager with a matching title is added and the chain stops.' },
+      managerChainMode: { type: 'string', title: 'Management chain rows', enum: ['append', 'replace'], defaultValue: 'append' },
+      outOfOfficeCheck: { type: 'boolean', title: 'Warn about approvers who are away', defaultValue: false, description: 'Checks automatic replies of picked approvers. Needs Mail.Read in the scopes.' },
+      outOfOfficeWindowDays: { type: 'number', title: 'Away warning window (days)', defaultValue: 14, description: 'Warn when the approver is away at any time from now until this many days ahead.' },
+      templatesJson: { type: 'string', title: 'Approver templates (JSON)', defaultValue: '', description: 'Named approver lists, e.g. [{"name":"Legal Review","approvers":[{"login":"legal@contoso.com","locked":true}]}]' },
+      templatesUrl: { type: 'string', title: 'Approver templates URL', defaultValue: '', description: 'Same-origin URL returning templates in the same JSON format. Combined with the JSON above.' },
+      approvalRulesJson: { type: 'string', title: 'Approval rules (JSON)', defaultValue: '', description: 'Approvers required by other form fields, e.g. [{"name":"CFO over 50k","when":{"field":"Amount","operator":"gt","value":50000},"approvers":[{"login":"cfo@contoso.com","position":1}],"minRows":3}]. Fields are referenced by control ID or JavaScript variable name. Operators: eq, ne, gt, gte, lt, lte, contains, in, empty, notEmpty.' },
+      rowColumnsJson: { type: 'string', title: 'Row columns (JSON)', defaultValue: '', description: 'Extra fields per approver, e.g. [{"key":"role","label":"Role","type":"choice","choices":["Technical reviewer","Business owner"],"required":true},{"key":"dueDate","label":"Due date","type":"date"},{"key":"instructions","label":"Instructions","type":"text"}]' },
+      locale: { type: 'string', title: 'Language', defaultValue: '', description: 'Locale such as de, es-MX or zh-TW. Leave blank to use the browser language.' },
+      accentColor: { type: 'string', title: 'Accent color', defaultValue: '', description: 'CSS color for focus rings, links and primary buttons, e.g. #7c3aed. Leave blank for the default blue.' },
+      density: { type: 'string', title: 'Density', enum: ['comfortable', 'compact'], defaultValue: 'comfortable', description: 'compact: tighter spacing and smaller controls for long approver lists.' },
+      buttonStyle: { type: 'string', title: 'Button style', enum: ['auto', 'icons', 'labels'], defaultValue: 'auto', description: 'auto: icons on rows, text on actions. icons: icon-only buttons everywhere. labels: text buttons everywhere.' },
+      messagesJson: { type: 'string', title: 'Text overrides (JSON)', defaultValue: '', description: 'Replace any text, e.g. {"addRow":"Add approver"} or per language {"de":{"addRow":"Genehmiger hinzufügen"}}' },
+      enableStages: { type: 'boolean', title: 'Enable approval stages', defaultValue: false, description: 'Group approvers into stages that run in sequence, with parallel approvers inside each stage.' },
     } satisfies Record<string, PropType>;
 
     return {
@@ -59,58 +115,276 @@ export default class ApproversRepeater extends LitElement {
   @property({ type: Number, attribute: 'minrows' }) minRows = 1;
   @property({ type: Number, attribute: 'maxrows' }) maxRows = 10;
   @property({ type: String }) value = '[]';
+  @property({ type: String, attribute: 'directoryprovider' }) directoryProvider: DirectoryProviderKind = 'graph';
+  @property({ type: String, attribute: 'sharepointsiteurl' }) sharePointSiteUrl = '';
+  @property({ type: String, attribute: 'staticdirectoryjson' }) staticDirectoryJson = '';
   @property({ type: String, attribute: 'clientid' }) clientId = '';
   @property({ type: String, attribute: 'tenantid' }) tenantId = 'common';
   @property({ type: String, attribute: 'redirectorigin' }) redirectOrigin = '';
-  @property({ type: String, attribute: 'graphendpoint' }) graphEndpoint: 'me.people' | 'users' = 'me.people';
+  @property({ type: String, attribute: 'signinflow' }) signInFlow: 'popup' | 'redirect' = 'popup';
+  @property({ type: String, attribute: 'loginhint' }) loginHint = '';
+  @property({ type: String, attribute: 'authorityhost' }) authorityHost = DEFAULT_AUTHORITY_HOST;
+  @property({ type: String, attribute: 'graphbaseurl' }) graphBaseUrl = DEFAULT_GRAPH_BASE;
+  @property({ type: String, attribute: 'graphendpoint' }) graphEndpoint: GraphEndpoint = 'me.people';
   @property({ type: String, attribute: 'scopescsv' }) scopesCsv = 'People.Read,User.Read';
   @property({ type: Number, attribute: 'maxsuggestions' }) maxSuggestions = 8;
   @property({ type: Number, attribute: 'minchars' }) minChars = 2;
   @property({ type: String, attribute: 'jsontargetid' }) jsonTargetId = '';
-  @property({ type: Boolean, attribute: 'force-editable' }) forceEditable = false;
+  @property({ type: String, attribute: 'statustargetid' }) statusTargetId = '';
+  // Designer expression result; older forms saved a plain boolean where false meant "follow the form"
+  @property({ attribute: 'force-editable' }) forceEditable: string | boolean = '';
+  @property({ type: Boolean, attribute: 'readonly' }) readOnly = false; // Nintex standard property
+  @property({ type: String, attribute: 'alloweddomains' }) allowedDomains = '';
+  @property({ type: String, attribute: 'excludeddomains' }) excludedDomains = '';
+  @property({ type: String, attribute: 'alloweddepartments' }) allowedDepartments = '';
+  @property({ type: String, attribute: 'allowedcompanies' }) allowedCompanies = '';
+  @property({ type: Boolean, attribute: 'excludedisabledaccounts' }) excludeDisabledAccounts = false;
+  @property({ type: Boolean, attribute: 'excludeguests' }) excludeGuests = false;
+  @property({ type: Boolean, attribute: 'allowexternal' }) allowExternal = false;
+  @property({ type: String, attribute: 'externaldomains' }) externalDomains = '';
+  @property({ type: Boolean, attribute: 'externalguestlookup' }) externalGuestLookup = false;
+  @property({ type: Boolean, attribute: 'enablestages' }) enableStages = false;
+  @property({ type: Boolean, attribute: 'noduplicateapprovers' }) noDuplicateApprovers = true;
+  @property({ type: Boolean, attribute: 'noselfapproval' }) noSelfApproval = false;
+  @property({ type: Boolean, attribute: 'requirefilledrows' }) requireFilledRows = false;
+  @property({ type: Number, attribute: 'minfilledrows' }) minFilledRows = 0;
+  @property({ type: Boolean }) required = false; // Nintex standard property
+  @property({ type: Boolean, attribute: 'showmanagerchain' }) showManagerChain = false;
+  @property({ type: Number, attribute: 'managerchaindepth' }) managerChainDepth = 3;
+  @property({ type: String, attribute: 'managerchainstoptitles' }) managerChainStopTitles = '';
+  @property({ type: String, attribute: 'managerchainmode' }) managerChainMode: 'append' | 'replace' = 'append';
+  @property({ type: Boolean, attribute: 'outofofficecheck' }) outOfOfficeCheck = false;
+  @property({ type: Number, attribute: 'outofofficewindowdays' }) outOfOfficeWindowDays = 14;
+  @property({ type: String, attribute: 'templatesjson' }) templatesJson = '';
+  @property({ type: String, attribute: 'templatesurl' }) templatesUrl = '';
+  @property({ type: String, attribute: 'approvalrulesjson' }) approvalRulesJson = '';
+  @property({ type: String, attribute: 'rowcolumnsjson' }) rowColumnsJson = '';
+  @property({ type: String }) locale = '';
+  @property({ type: String, attribute: 'messagesjson' }) messagesJson = '';
+  @property({ type: String, attribute: 'accentcolor' }) accentColor = '';
+  @property({ type: String, reflect: true }) density: 'comfortable' | 'compact' = 'comfortable'; // reflected for :host([density]) styles
+  @property({ type: String, attribute: 'buttonstyle' }) buttonStyle: 'auto' | 'icons' | 'labels' = 'auto';
+  @property({ type: String, attribute: 'groupmode' }) groupMode: 'none' | 'group' | 'expand' = 'none';
 
   // ======= Internal repeater state =======
-  private rows: Array<{ order: number; approver: string }> = [];
+  private rows: ApproverRow[] = [];
+  @state() private stages: Stage[] = [];
   @state() private activeRowIndex: number | null = null;
   @state() private terms: Record<number, string> = {};
   @state() private selections: Record<number, Person | null> = {};
   @state() private suggestions: Record<number, Person[]> = {};
+  @state() private resolving: Set<string> = new Set(); // lowercased logins awaiting Graph
   @state() private loading = false;
+  @state() private highlightedOption = -1; // keyboard-highlighted suggestion in the active row
+  @state() private announcement = ''; // polite live-region text for screen readers
+  @state() private dragFrom: number | null = null;
+  @state() private dropTarget: DropTarget | null = null;
+  private dragMode: 'pointer' | 'keyboard' | null = null;
   @state() private errorMsg = '';
-  @state() private displayMode: boolean = true;
+  @state() private mode: FormMode = 'display';
+  private modeObserver?: MutationObserver;
+  private modeCheckPending = false; // coalesces form mutations into one check per frame
+  private readonly onLocationChange = () => this.refreshMode();
   @state() private renderTick = 0;
+  // Set when the saved value was rejected, so padding rows never overwrites it unasked
+  private valueRejected = false;
+  private loaded = false;
+  // Empty-row and minimum-count errors wait until focus has left the control once
+  @state() private validationVisible = false;
+  @state() private templates: ApproverTemplate[] = [];
+  @state() private selectedTemplate = '';
+  @state() private outcomes: ApprovalOutcome[] = [];
+  @state() private photoUrls: Record<string, string | null> = {}; // by lowercased person id
+  private photoIds = new Set<string>(); // photos this control loaded, released on disconnect
+  // Out-of-office notices and suggested delegates, by lowercased approver login
+  @state() private awayNotices: Record<string, AwayNotice | null> = {};
+  @state() private delegates: Record<string, Person | null> = {};
+  // Backup approver picker, open on at most one row
+  @state() private backupRow: number | null = null;
+  @state() private backupTerm = '';
+  @state() private backupSuggestions: Person[] = [];
+  @state() private backupHighlighted = -1;
+  private backupTimer: any = null;
+  // Bulk add dialog: pasted text, then a preview of how each entry resolved
+  @state() private bulkOpen = false;
+  @state() private bulkText = '';
+  @state() private bulkEntries: ImportPreview[] | null = null;
+  @state() private bulkBusy = false;
+  private bulkAbort?: AbortController; // lookups of the current preview
+  @state() private bulkError = '';
+  private reportedValid: boolean | null = null;
 
   // MSAL
   private msal?: PublicClientApplication;
+  private msalReady?: Promise<void>;
   private account?: AccountInfo;
-  private debounceTimer: any = null;
+  @state() private signInRequired = false;
+  @state() private signingIn = false;
+
+  // Per-row search debounce and cancellation, plus recent results by term
+  private searchTimers = new Map<number, ReturnType<typeof setTimeout>>();
+  private searchAborts = new Map<number, AbortController>();
+  private backupAbort?: AbortController;
+  // Lookups outside the pickers (saved logins, groups, managers, out of office), aborted on disconnect
+  private lookupAbort = new AbortController();
+  private searchCache = new LruCache<Person[]>(50, 5 * 60 * 1000);
+
+  // Directory provider, rebuilt when its configuration changes
+  private providerInstance?: DirectoryProvider;
+  private providerKey = '';
+
+  // JSON textbox the value is mirrored to, attached once found on the form
+  private target?: TargetTextbox;
+
+  // Approval rules and the form fields they watch
+  private rules: ApprovalRule[] = [];
+  private rulesWatcher?: FormFieldWatcher;
+  private fieldValues: Record<string, string> = {};
+  @state() private ruleMinRows = 0;
+  @state() private activeRules: string[] = [];
+
+  // Translator for the current locale, rebuilt when the locale or overrides change
+  private translator?: Translate;
+  private translatorKey = '';
+
+  // Parsed row columns, re-parsed when the designer JSON changes
+  private columnsCache: ColumnDef[] = [];
+  private columnsKey: string | null = null;
+  private columnsError = '';
 
   // ======= Styles =======
+  // Theme hooks: every color, plus the main font sizes and spacing, comes from a --approvers-*
+  // custom property, which form CSS can set on approvers-repeater; elements carry part names
+  // for ::part() rules.
   static styles = css`
     :host { 
+      --approvers-accent: #2563eb; 
+      --approvers-accent-text: #fff; 
+      --approvers-accent-hover: color-mix(in srgb, var(--approvers-accent) 85%, #000); 
+      --approvers-accent-soft: color-mix(in srgb, var(--approvers-accent) 10%, #fff); 
+      --approvers-accent-strong: color-mix(in srgb, var(--approvers-accent) 75%, #000); 
+      --approvers-font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial; 
+      --approvers-font-size: 14px; 
+      --approvers-font-size-small: 12px; 
+      --approvers-text: #1f2937; 
+      --approvers-text-muted: #6b7280; 
+      --approvers-background: #f9fafb; 
+      --approvers-surface: #fff; 
+      --approvers-border: #e5e7eb; 
+      --approvers-input-border: #ccd0d5; 
+      --approvers-radius: 8px; 
+      --approvers-button-radius: 6px; 
+      --approvers-padding: 12px; 
+      --approvers-gap: 10px; 
+      --approvers-row-gap: 10px; 
+      --approvers-input-padding: 8px 10px; 
+      --approvers-button-padding: 6px 10px; 
+      --approvers-add-background: #10b981; 
+      --approvers-add-hover: #059669; 
+      --approvers-remove-background: #ef4444; 
+      --approvers-remove-hover: #dc2626; 
+      --approvers-move-background: #6b7280; 
+      --approvers-move-hover: #4b5563; 
+      --approvers-secondary-background: #e5e7eb; 
+      --approvers-secondary-hover: #d1d5db; 
+      --approvers-secondary-text: #1f2937; 
+      --approvers-error: #b91c1c; 
+      --approvers-match-background: #fef08a; 
+      --approvers-text-secondary: #374151; 
+      --approvers-text-subtle: #4b5563; 
+      --approvers-button-text: #fff; 
+      --approvers-hover-background: #f3f4f6; 
+      --approvers-success-background: #d1fae5; 
+      --approvers-success-text: #065f46; 
+      --approvers-warning-background: #fef3c7; 
+      --approvers-warning-text: #92400e; 
+      --approvers-danger-background: #fee2e2; 
+      --approvers-danger-text: #991b1b; 
+      --approvers-group-background: #ede9fe; 
+      --approvers-group-border: #c4b5fd; 
+      --approvers-group-text: #5b21b6; 
+      --approvers-external-background: #ffedd5; 
+      --approvers-external-text: #9a3412; 
+      --approvers-dropdown-shadow: 0 10px 20px rgba(0,0,0,0.06); 
+      --approvers-dialog-shadow: 0 10px 20px rgba(0,0,0,0.12); 
+      --approvers-backdrop: rgba(0,0,0,0.3); 
       display: block !important; 
       visibility: visible !important; 
       min-height: 50px;
-      font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial; 
+      font-family: var(--approvers-font-family); 
+    }
+    :host([density="compact"]) { 
+      --approvers-font-size: 13px; 
+      --approvers-padding: 8px; 
+      --approvers-gap: 6px; 
+      --approvers-row-gap: 4px; 
+      --approvers-input-padding: 4px 8px; 
+      --approvers-button-padding: 3px 8px; 
     }
     .repeater-container { 
-      border: 1px solid #e5e7eb; 
-      border-radius: 8px; 
-      padding: 12px; 
-      background: #f9fafb; 
+      border: 1px solid var(--approvers-border); 
+      border-radius: var(--approvers-radius); 
+      padding: var(--approvers-padding); 
+      background: var(--approvers-background); 
+      color: var(--approvers-text); 
       min-height: 50px;
     }
-    .rowwrap { display: flex; align-items: flex-start; gap: 10px; margin-bottom: 10px; }
-    .display-row { display: flex; align-items: center; gap: 10px; margin-bottom: 10px; }
-    .order { width: 36px; text-align: center; font-weight: 600; color: #4b5563; padding-top: 8px; }
+    .editor { border: 0; margin: 0; padding: 0; min-width: 0; }
+    .editor:disabled .drag-handle { cursor: default; }
+    .rowwrap { display: flex; align-items: flex-start; gap: var(--approvers-gap); margin-bottom: var(--approvers-row-gap); }
+    .rowwrap.dragging { opacity: 0.5; }
+    .rowwrap.drop-before { box-shadow: 0 -3px 0 0 var(--approvers-accent); }
+    .rowwrap.drop-after { box-shadow: 0 3px 0 0 var(--approvers-accent); }
+    .drag-handle { 
+      background: transparent; 
+      color: var(--approvers-text-muted); 
+      padding: 6px 4px; 
+      font-size: 16px; 
+      line-height: 1; 
+      cursor: grab; 
+      touch-action: none; 
+    }
+    .drag-handle[aria-pressed="true"] { background: var(--approvers-accent-soft); color: var(--approvers-accent-strong); }
+    .display-row { display: flex; flex-wrap: wrap; align-items: center; gap: var(--approvers-gap); margin-bottom: var(--approvers-row-gap); }
+    .row-fields { display: flex; flex-wrap: wrap; gap: 6px; flex: 1; }
+    .field-input { 
+      flex: 1 1 120px; 
+      min-width: 0; 
+      padding: var(--approvers-input-padding); 
+      border: 1px solid var(--approvers-input-border); 
+      border-radius: var(--approvers-radius); 
+      font-size: var(--approvers-font-size); 
+    }
+    .field { font-size: var(--approvers-font-size-small); color: var(--approvers-text-secondary); }
+    .display-row.current { background: var(--approvers-accent-soft); border-inline-start: 3px solid var(--approvers-accent); border-radius: 6px; padding: 4px 0; }
+    .status { 
+      display: inline-block; 
+      padding: 0 8px; 
+      border-radius: 9999px; 
+      font-size: 11px; 
+      line-height: 20px; 
+      background: var(--approvers-hover-background); 
+      color: var(--approvers-text-secondary); 
+    }
+    .status.approved { background: var(--approvers-success-background); color: var(--approvers-success-text); }
+    .status.rejected { background: var(--approvers-danger-background); color: var(--approvers-danger-text); }
+    .status.skipped { background: var(--approvers-secondary-background); color: var(--approvers-text-muted); }
+    .display-row.current .status { background: var(--approvers-accent-soft); color: var(--approvers-accent-strong); }
+    .comment { flex-basis: 100%; margin-inline-start: 46px; font-size: var(--approvers-font-size-small); color: var(--approvers-text-subtle); font-style: italic; }
+    .progress { margin-bottom: var(--approvers-row-gap); font-size: var(--approvers-font-size); font-weight: 600; color: var(--approvers-accent-strong); }
+    .progress.complete { color: var(--approvers-success-text); }
+    .progress.rejected { color: var(--approvers-danger-text); }
+    .order { width: 36px; text-align: center; font-weight: 600; color: var(--approvers-text-subtle); padding-top: 8px; }
     .picker { position: relative; flex: 1; }
     .input { 
       width: 100%; 
       box-sizing: border-box; 
-      padding: 8px 10px; 
-      border: 1px solid #ccd0d5; 
-      border-radius: 8px; 
-      font-size: 14px; 
+      padding: var(--approvers-input-padding); 
+      border: 1px solid var(--approvers-input-border); 
+      border-radius: var(--approvers-radius); 
+      background: var(--approvers-surface); 
+      color: var(--approvers-text); 
+      font-size: var(--approvers-font-size); 
       outline: none; 
     }
     .pill { 
@@ -119,11 +393,23 @@ export default class ApproversRepeater extends LitElement {
       gap: 6px; 
       padding: 4px 8px; 
       border-radius: 9999px; 
-      background: #f3f4f6; 
-      border: 1px solid #e5e7eb; 
-      font-size: 12px; 
+      background: var(--approvers-hover-background); 
+      border: 1px solid var(--approvers-border); 
+      font-size: var(--approvers-font-size-small); 
       margin: 6px 0; 
     }
+    .pill.group { background: var(--approvers-group-background); border-color: var(--approvers-group-border); color: var(--approvers-group-text); }
+    .tag { 
+      display: inline-block; 
+      margin-inline-start: 6px; 
+      padding: 0 6px; 
+      border-radius: 9999px; 
+      font-size: 11px; 
+      line-height: 18px; 
+      vertical-align: middle; 
+    }
+    .tag.group { background: var(--approvers-group-background); color: var(--approvers-group-text); }
+    .tag.external { background: var(--approvers-external-background); color: var(--approvers-external-text); }
     .pill button { 
       border: none; 
       background: transparent; 
@@ -133,52 +419,201 @@ export default class ApproversRepeater extends LitElement {
     }
     .dropdown { 
       position: absolute; 
+      inset-inline-start: 0; 
       z-index: 10000; 
-      background: #fff; 
-      border: 1px solid #e5e7eb; 
-      border-radius: 8px; 
+      background: var(--approvers-surface); 
+      border: 1px solid var(--approvers-border); 
+      border-radius: var(--approvers-radius); 
       margin-top: 4px; 
       width: 100%; 
       max-height: 240px; 
       overflow: auto; 
-      box-shadow: 0 10px 20px rgba(0,0,0,0.06); 
+      box-shadow: var(--approvers-dropdown-shadow); 
+    }
+    .opt { display: flex; align-items: center; gap: 8px; padding: var(--approvers-input-padding); cursor: pointer; }
+    .opt-text { min-width: 0; }
+    .avatar { 
+      flex: none; 
+      display: inline-flex; 
+      align-items: center; 
+      justify-content: center; 
+      width: 24px; 
+      height: 24px; 
+      border-radius: 50%; 
+      background: var(--approvers-accent-soft); 
+      color: var(--approvers-accent-strong); 
+      font-size: 10px; 
+      font-weight: 600; 
+      object-fit: cover; 
+    }
+    .avatar.group { background: var(--approvers-group-background); font-size: 12px; }
+    .opt .avatar, .display-row .avatar { width: 32px; height: 32px; font-size: 12px; }
+    :host([density="compact"]) .opt .avatar, :host([density="compact"]) .display-row .avatar { width: 24px; height: 24px; font-size: 10px; }
+    .pill .avatar { width: 18px; height: 18px; font-size: 8px; }
+    .opt:hover, .opt.highlighted { background: var(--approvers-hover-background); }
+    .opt mark { background: var(--approvers-match-background); color: inherit; font-weight: 600; }
+    .sr-only { 
+      position: absolute; 
+      width: 1px; 
+      height: 1px; 
+      padding: 0; 
+      margin: -1px; 
+      overflow: hidden; 
+      clip: rect(0, 0, 0, 0); 
+      white-space: nowrap; 
+      border: 0; 
     }
-    .opt { padding: 8px 10px; cursor: pointer; }
-    .opt:hover { background: #f3f4f6; }
-    .title { font-size: 14px; }
-    .subtle { color: #6b7280; font-size: 12px; }
-    .display-name { font-size: 14px; color: #1f2937; }
+    button:focus-visible, .input:focus-visible { outline: 2px solid var(--approvers-accent); outline-offset: 2px; }
+    .title { font-size: var(--approvers-font-size); }
+    .subtle { color: var(--approvers-text-muted); font-size: var(--approvers-font-size-small); }
+    .display-name { font-size: var(--approvers-font-size); color: var(--approvers-text); }
+    .resolving { color: var(--approvers-text-muted); font-style: italic; }
     .buttons { display: flex; gap: 8px; }
-    button { border: none; border-radius: 6px; cursor: pointer; }
+    button { border: none; border-radius: var(--approvers-button-radius); cursor: pointer; font-family: inherit; }
     .move-up, .move-down { 
-      background: #6b7280; 
-      color: #fff; 
-      padding: 6px 10px; 
-      font-size: 14px; 
+      background: var(--approvers-move-background); 
+      color: var(--approvers-button-text); 
+      padding: var(--approvers-button-padding); 
+      font-size: var(--approvers-font-size); 
     }
-    .move-up:hover, .move-down:hover { background: #4b5563; }
+    .move-up:hover, .move-down:hover { background: var(--approvers-move-hover); }
     .remove { 
-      background: #ef4444; 
-      color: #fff; 
-      padding: 6px 8px; 
+      background: var(--approvers-remove-background); 
+      color: var(--approvers-button-text); 
+      padding: var(--approvers-button-padding); 
       font-size: 16px; 
       line-height: 1; 
       display: flex; 
       align-items: center; 
       justify-content: center; 
     }
-    .remove:hover { background: #dc2626; }
+    .remove.labeled { font-size: var(--approvers-font-size); }
+    .remove:hover { background: var(--approvers-remove-hover); }
     .add-row { 
-      background: #10b981; 
-      color: #fff; 
-      padding: 6px 10px; 
+      background: var(--approvers-add-background); 
+      color: var(--approvers-button-text); 
+      padding: var(--approvers-button-padding); 
+      margin-top: 8px; 
+      font-size: var(--approvers-font-size); 
+    }
+    .add-row:hover { background: var(--approvers-add-hover); }
+    .actions { display: flex; flex-wrap: wrap; gap: 8px; }
+    .templates { display: flex; flex-wrap: wrap; align-items: center; gap: 8px; margin: 4px 0 8px; }
+    .template-select { 
+      padding: var(--approvers-button-padding); 
+      border: 1px solid var(--approvers-input-border); 
+      border-radius: var(--approvers-button-radius); 
+      font-size: var(--approvers-font-size); 
+    }
+    .apply-template { 
+      background: var(--approvers-secondary-background); 
+      color: var(--approvers-secondary-text); 
+      padding: var(--approvers-button-padding); 
+      font-size: var(--approvers-font-size); 
+    }
+    .apply-template:hover { background: var(--approvers-secondary-hover); }
+    .apply-template:disabled, button:disabled { opacity: 0.5; cursor: not-allowed; }
+    .lock { font-size: 12px; }
+    .away { 
+      padding: 0 6px; 
+      border-radius: 9999px; 
+      background: var(--approvers-warning-background); 
+      color: var(--approvers-warning-text); 
+      font-size: 11px; 
+      line-height: 18px; 
+    }
+    .backup { display: flex; flex-wrap: wrap; align-items: center; gap: 6px; font-size: var(--approvers-font-size-small); }
+    .backup .pill { margin: 2px 0; }
+    .backup-picker { position: relative; margin-top: 4px; }
+    .link { 
+      background: transparent; 
+      color: var(--approvers-accent); 
+      padding: 2px 0; 
+      font-size: var(--approvers-font-size-small); 
+    }
+    .link:hover { text-decoration: underline; }
+    .populate-managers { 
+      background: var(--approvers-accent); 
+      color: var(--approvers-accent-text); 
+      padding: var(--approvers-button-padding); 
       margin-top: 8px; 
-      font-size: 14px; 
+      font-size: var(--approvers-font-size); 
     }
-    .add-row:hover { background: #059669; }
-    .helper { margin-top: 6px; font-size: 12px; color: #6b7280; }
-    .error { margin-top: 6px; font-size: 12px; color: #b91c1c; }
-    .debug { margin: 10px 0; padding: 10px; background: #fff3cd; border: 1px solid #ffecb5; color: #664d03; font-size: 14px; }
+    .populate-managers:hover { background: var(--approvers-accent-hover); }
+    .bulk-add, .export-csv { 
+      background: var(--approvers-secondary-background); 
+      color: var(--approvers-secondary-text); 
+      padding: var(--approvers-button-padding); 
+      margin-top: 8px; 
+      font-size: var(--approvers-font-size); 
+    }
+    .bulk-add:hover, .export-csv:hover { background: var(--approvers-secondary-hover); }
+    .bulk-dialog { 
+      width: min(560px, 90vw); 
+      border: 1px solid var(--approvers-border); 
+      border-radius: var(--approvers-radius); 
+      padding: 16px; 
+      background: var(--approvers-surface); 
+      color: var(--approvers-text); 
+      box-shadow: var(--approvers-dialog-shadow); 
+    }
+    .bulk-dialog::backdrop { background: var(--approvers-backdrop); }
+    .bulk-title { margin: 0 0 8px; font-size: 16px; }
+    .bulk-text { 
+      display: block; 
+      width: 100%; 
+      box-sizing: border-box; 
+      margin: 6px 0; 
+      padding: var(--approvers-input-padding); 
+      border: 1px solid var(--approvers-input-border); 
+      border-radius: var(--approvers-radius); 
+      font-size: var(--approvers-font-size); 
+    }
+    .bulk-list { list-style: none; margin: 8px 0; padding: 0; max-height: 320px; overflow: auto; }
+    .bulk-entry { display: flex; flex-wrap: wrap; align-items: center; gap: 8px; padding: 4px 0; font-size: 13px; }
+    .bulk-raw { color: var(--approvers-text-subtle); }
+    .bulk-buttons { margin-top: 12px; justify-content: flex-end; }
+    .status.resolved { background: var(--approvers-success-background); color: var(--approvers-success-text); }
+    .status.ambiguous { background: var(--approvers-warning-background); color: var(--approvers-warning-text); }
+    .status.not-found { background: var(--approvers-danger-background); color: var(--approvers-danger-text); }
+    .sign-in { 
+      display: block; 
+      background: var(--approvers-accent); 
+      color: var(--approvers-accent-text); 
+      padding: var(--approvers-button-padding); 
+      margin-top: 8px; 
+      font-size: var(--approvers-font-size); 
+    }
+    .sign-in:hover { background: var(--approvers-accent-hover); }
+    .stage-header { 
+      display: flex; 
+      align-items: center; 
+      gap: var(--approvers-gap); 
+      margin: 4px 0 8px; 
+      padding-bottom: 4px; 
+      border-bottom: 1px solid var(--approvers-border); 
+    }
+    .stage-title { font-weight: 600; font-size: var(--approvers-font-size); color: var(--approvers-text-secondary); }
+    .stage-mode { 
+      padding: 4px 6px; 
+      border: 1px solid var(--approvers-input-border); 
+      border-radius: var(--approvers-button-radius); 
+      font-size: var(--approvers-font-size-small); 
+    }
+    .stage-header .buttons { margin-inline-start: auto; }
+    .in-stage { margin-inline-start: 12px; }
+    .add-to-stage { 
+      background: var(--approvers-secondary-background); 
+      color: var(--approvers-secondary-text); 
+      padding: var(--approvers-button-padding); 
+      font-size: var(--approvers-font-size-small); 
+    }
+    .add-to-stage:hover { background: var(--approvers-secondary-hover); }
+    .helper { margin-top: 6px; font-size: var(--approvers-font-size-small); color: var(--approvers-text-muted); }
+    .error { margin-top: 6px; font-size: var(--approvers-font-size-small); color: var(--approvers-error); }
+    .row-error { margin-top: 4px; font-size: var(--approvers-font-size-small); color: var(--approvers-error); }
+    .input[aria-invalid="true"] { border-color: var(--approvers-remove-background); }
+    .debug { margin: 10px 0; padding: 10px; background: var(--approvers-warning-background); border: 1px solid var(--approvers-border); color: var(--approvers-warning-text); font-size: var(--approvers-font-size); }
   `;
 
   // ======= Helpers for Nintex context =======
@@ -198,15 +633,60 @@ export default class ApproversRepeater extends LitElement {
     return doc;
   }
 
-  private isDisplayMode(): boolean {
-    if (this.forceEditable) {
-      console.log('Forcing editable mode via forceEditable property');
-      return false;
+  // Designer locale first, then the browser's preferred languages
+  private get localeTag(): string {
+    const requested = this.locale?.trim() || navigator.languages?.[0] || navigator.language || 'en';
+    try {
+      return Intl.getCanonicalLocales(requested)[0];
+    } catch {
+      return 'en';
+    }
+  }
+
+  private get t(): Translate {
+    const locale = this.localeTag;
+    const key = JSON.stringify([locale, this.messagesJson]);
+    if (!this.translator || key !== this.translatorKey) {
+      this.translator = createTranslator(locale, parseOverrides(this.messagesJson, locale));
+      this.translatorKey = key;
+      console.log('Using locale:', locale);
     }
+    return this.translator;
+  }
+
+  private formatDate(value: string | number | Date): string {
+    return new Date(value).toLocaleDateString(this.localeTag);
+  }
+
+  // ======= Form mode =======
+  private get displayMode(): boolean {
+    return this.mode === 'display';
+  }
+
+  private get editable(): boolean {
+    return this.mode === 'edit';
+  }
+
+  // true/false from the "Editable when" expression, null to follow the form
+  private get editableOverride(): boolean | null {
+    const value = this.forceEditable;
+    if (value === true) return true;
+    if (value === false || value == null) return null;
+    const text = String(value).trim().toLowerCase();
+    if (['true', 'yes', '1'].includes(text)) return true;
+    if (['false', 'no', '0'].includes(text)) return false;
+    return null;
+  }
+
+  private detectMode(): FormMode {
+    const override = this.editableOverride;
+    if (override === false || (override === null && this.isDisplayForm())) return 'display';
+    return this.readOnly ? 'readonly' : 'edit';
+  }
 
+  private isDisplayForm(): boolean {
     try {
       const formMode = this.nwf?.FormFiller?.Forms?.getFormMode?.();
-      console.log('Nintex API form mode:', formMode);
       if (formMode !== undefined) {
         return formMode === 2 || formMode === 'Display';
       }
@@ -214,26 +694,60 @@ export default class ApproversRepeater extends LitElement {
       console.warn('Failed to access Nintex FormFiller API:', e);
     }
 
+    // The Edit button only shows on display forms
     const editButton = this.targetDocument.querySelector(
       'ntx-icon[aria-label="edit" i], ntx-icon svg use[href="#edit"]'
     );
-    console.log('Edit button check:', { found: !!editButton, selector: editButton?.outerHTML || 'none' });
-    if (editButton) {
-      console.log('Detected display mode via Edit button (ntx-icon)');
-      return true;
-    }
+    if (editButton) return true;
 
-    const urlParams = new URLSearchParams(window.location.search);
-    const mode = urlParams.get('mode');
-    console.log('Mode detection:', { mode, url: window.location.href });
-    if (mode === '2') {
-      console.log('Detected display mode via URL mode=2');
-      return true;
-    }
+    const mode = new URLSearchParams(this.targetDocument.location.search).get('mode')
+      ?? new URLSearchParams(window.location.search).get('mode');
+    return mode === '2';
+  }
+
+  // Nintex switches between display and edit forms without reloading the page
+  private watchMode() {
+    if (this.modeObserver) return;
+    this.modeObserver = new MutationObserver(() => {
+      if (this.modeCheckPending) return;
+      this.modeCheckPending = true;
+      requestAnimationFrame(() => {
+        this.modeCheckPending = false;
+        this.refreshMode();
+      });
+    });
+    this.modeObserver.observe(this.targetDocument.body, { childList: true, subtree: true });
+    window.addEventListener('popstate', this.onLocationChange);
+  }
 
-    const isReadonly = this.getAttribute('readonly') === 'true';
-    console.log('Fallback to readonly attribute:', isReadonly);
-    return isReadonly;
+  private unwatchMode() {
+    this.modeObserver?.disconnect();
+    this.modeObserver = undefined;
+    this.modeCheckPending = false;
+    window.removeEventListener('popstate', this.onLocationChange);
+  }
+
+  private refreshMode() {
+    const next = this.detectMode();
+    if (next === this.mode) return;
+    console.log('Form mode changed:', { from: this.mode, to: next });
+    this.mode = next;
+    this.renderTick++;
+    if (!this.loaded) return;
+    // The saved value leaves out blank rows (with their fields) and stages that only hold
+    // them, so the rows are rebuilt only when the value itself changed meanwhile
+    const raw = this.target?.attached ? this.target.read() : this.value;
+    const ready = this.sameJson(raw, this.value) ? this.resumeRows() : this.loadValue();
+    ready.then(() => {
+      if (this.editable) return this.loadTemplates();
+      if (this.displayMode) this.loadOutcomes();
+    });
+  }
+
+  // Mode changed but the value did not: keep the rows as they are
+  private async resumeRows() {
+    this.ensureMinRows();
+    if (this.rulesWatcher) await this.applyRules();
   }
 
   // ======= Lifecycle =======
@@ -244,30 +758,49 @@ export default class ApproversRepeater extends LitElement {
       value: this.value,
       minRows: this.minRows,
       forceEditable: this.forceEditable,
-      isDisplayMode: this.isDisplayMode() ? 'Display Mode' : 'Edit/New Mode'
+      readOnly: this.readOnly,
     });
-    // this.checkModeChange();
+    if (this.hasUpdated) {
+      this.watchMode();
+      this.refreshMode();
+      this.attachTarget();
+      this.watchRules();
+    }
   }
 
-  private checkModeChange() {
-    const observer = new MutationObserver(() => {
-      const newMode = this.isDisplayMode();
-      if (newMode !== this.displayMode) {
-        console.log('Mode changed via MutationObserver:', { oldMode: this.displayMode ? 'Display' : 'Edit/New', newMode: newMode ? 'Display' : 'Edit/New' });
-        this.displayMode = newMode;
-        this.renderTick++;
-        this.loadValue().then(() => this.requestUpdate());
-      }
-    });
-    observer.observe(this.targetDocument.body, { childList: true, subtree: true });
-    this.addEventListener('disconnectedCallback', () => observer.disconnect());
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.unwatchMode();
+    [...this.searchAborts.keys(), ...this.searchTimers.keys()].forEach(i => this.cancelSearch(i));
+    this.backupAbort?.abort();
+    this.lookupAbort.abort();
+    this.lookupAbort = new AbortController();
+    this.target?.detach();
+    this.target = undefined;
+    this.unwatchRules();
+    this.photoIds.forEach(id => releasePhoto(id));
+    this.photoIds.clear();
+    this.photoUrls = {};
+  }
+
+  protected willUpdate(changedProperties: Map<string, any>): void {
+    if (changedProperties.has('readOnly') || changedProperties.has('forceEditable')) this.refreshMode();
   }
 
   protected async firstUpdated(): Promise<void> {
-    this.displayMode = this.isDisplayMode();
+    this.mode = this.detectMode();
+    this.watchMode();
+    // A redirect sign-in comes back to this page; pick up its result before loading
+    if (this.directoryProvider === 'graph' && this.clientId) {
+      await this.ensureMsal().catch(e => console.error('MSAL setup failed:', e));
+    }
+    this.attachTarget();
     await this.loadValue();
+    if (this.editable) await this.loadTemplates();
+    else if (this.displayMode) this.loadOutcomes();
+    this.watchRules();
     this.requestUpdate();
-    console.log('firstUpdated completed:', { displayMode: this.displayMode, rows: this.rows });
+    console.log('firstUpdated completed:', { mode: this.mode, rows: this.rows });
   }
 
   protected updated(changedProperties: Map<string, any>): void {
@@ -276,150 +809,290 @@ export default class ApproversRepeater extends LitElement {
       rows: this.rows,
       selections: this.selections,
       terms: this.terms,
-      isDisplayMode: this.displayMode,
+      mode: this.mode,
       renderTick: this.renderTick
     });
+    if (changedProperties.has('accentColor')) this.applyAccent();
+    if (changedProperties.has('jsonTargetId') && this.hasUpdated && this.loaded) this.attachTarget();
+    if (changedProperties.has('approvalRulesJson') && this.hasUpdated && this.loaded) this.watchRules();
+    if (this.loaded && this.editable) this.reportValidity();
+    this.loadPhotos();
+  }
+
+  // ======= Theme =======
+  // Set on the host so the derived hover/soft shades defined in :host follow it
+  private applyAccent() {
+    const color = this.accentColor?.trim();
+    if (color && CSS.supports('color', color)) {
+      this.style.setProperty('--approvers-accent', color);
+    } else {
+      if (color) console.warn('Ignoring invalid accent color:', color);
+      this.style.removeProperty('--approvers-accent');
+    }
+  }
+
+  // Visible text, or just the icon with the label kept for screen readers
+  private buttonContent(icon: string, label: string, iconByDefault = false) {
+    const iconOnly = this.buttonStyle === 'icons' || (this.buttonStyle !== 'labels' && iconByDefault);
+    return iconOnly ? html`<span aria-hidden="true">${icon}</span><span class="sr-only">${label}</span>` : label;
+  }
+
+  private get labeledButtons(): boolean {
+    return this.buttonStyle === 'labels';
   }
 
   // ======= Persistence =======
   private async loadValue() {
+    let people: Record<number, Person | null> = {};
     try {
       console.log('this.value for checking need to import: ', this.value);
 
-      
-      //if (this.value.trim().length === 0) {
-      //if (this.value !== target.value) {
-        if (this.jsonTargetId) {
-          let target = this.targetDocument.getElementById(this.jsonTargetId) as HTMLTextAreaElement | null;
-          
-          if (target) {
-            if (this.value !== target.value) {
-              this.value = target.value;
-            }
-            console.log('updated this.value with contents of textbox:', target.value);
-          } else {
-            console.warn('Textbox not found for ID:', this.jsonTargetId);
-          }
+      if (this.target?.attached) {
+        const raw = this.target.read();
+        if (this.value !== raw) {
+          this.value = raw;
         }
+        console.log('updated this.value with contents of textbox:', raw);
+      }
 
-      //} 
-      
-      this.rows = JSON.parse(this.value || '[]');
-      if (!Array.isArray(this.rows)) this.rows = [];
-      console.log('Loaded rows:', this.rows);
+      const loaded = parseApprovers(this.value);
+      this.rows = loaded.rows;
+      this.stages = loaded.stages;
+      people = loaded.people;
+      this.valueRejected = false;
+      if (loaded.migratedFrom) console.log('Migrated approvers from schema version', loaded.migratedFrom);
+      console.log('Loaded rows:', this.rows, 'stages:', this.stages);
   
     } catch (e) {
       console.error('Failed to parse initial value:', this.value, e);
       this.rows = [];
+      this.stages = [];
+      this.valueRejected = true;
+      this.errorMsg = e instanceof ApproversSchemaError
+        ? this.t('savedRejected', { detail: e.message })
+        : this.t('savedUnreadable');
     }
 
+    this.terms = {};
+    this.selections = {};
+    this.suggestions = {};
+    this.resolving = new Set();
+    // Stored snapshots render immediately; only rows saved without one need Graph
+    this.rows.forEach((row, i) => {
+      const person = people[i];
+      if (row.approver && person) {
+        this.selections[i] = person;
+        this.terms[i] = person.displayName || row.approver;
+      } else if (row.approver && row.principalType === 'group') {
+        // Groups are not looked up by login; show what was saved
+        this.selections[i] = { id: row.approver, displayName: row.approver, email: row.approver, login: row.approver, principalType: 'group' };
+        this.terms[i] = row.approver;
+      } else if (row.approver && row.external) {
+        // Not in the directory, so nothing to look up
+        this.selections[i] = externalPerson(row.approver);
+        this.terms[i] = row.approver;
+      }
+    });
 
     this.renumberOrders();
-    if (!this.displayMode) {
+    if (this.editable) {
       this.ensureMinRows();
     }
-    this.terms = {};
-    this.selections = {};
-    this.suggestions = {};
 
-    if (this.rows.length > 0) {
-      for (const [i, row] of this.rows.entries()) {
-        if (row.approver) {
-          try {
-            const user = await this.fetchUserDetails(row.approver);
-            this.selections[i] = user;
-            this.terms[i] = user.displayName || row.approver;
-            console.log(`Fetched user details for row ${i + 1}:`, user);
-          } catch (err) {
-            this.selections[i] = { id: row.approver, displayName: row.approver, email: row.approver, login: row.approver };
-            this.terms[i] = row.approver;
-            console.warn(`Failed to fetch user details for ${row.approver}:`, err);
-            this.errorMsg = 'Unable to load details for some approvers, please make sure pop-ups are enabled for this site.';
-          }
-        }
-      }
+    const pending = this.rows.filter((row, i) => row.approver && !this.selections[i]).map(row => row.approver);
+    if (pending.length > 0) {
+      this.requestUpdate();
+      await this.resolveLogins(pending);
     }
 
+    // Re-save so upgraded v1 data is stored as the current schema with snapshots
+    if (this.editable && !this.valueRejected) this.saveValue();
+
+    this.loaded = true;
+    if (this.rulesWatcher) await this.applyRules();
     console.log('loadValue completed:', { rows: this.rows, selections: this.selections, terms: this.terms, rowCount: this.rows.length });
     this.requestUpdate();
   }
 
+  // Display mode only: outcomes the workflow wrote to the status textbox
+  private loadOutcomes() {
+    if (!this.statusTargetId) return;
+    const target = this.targetDocument.getElementById(this.statusTargetId) as HTMLTextAreaElement | null;
+    if (!target) {
+      console.warn('Status textbox not found for ID:', this.statusTargetId);
+      return;
+    }
+    // Display forms may render the textbox as plain text instead of a textarea
+    const raw = target.value ?? target.textContent ?? '';
+    try {
+      this.outcomes = parseOutcomes(raw);
+      console.log('Loaded approval outcomes:', this.outcomes);
+    } catch (e: any) {
+      console.error('Failed to parse approval status:', raw, e);
+      this.outcomes = [];
+      this.errorMsg = e?.message || this.t('statusUnreadable');
+    }
+  }
+
+  // ======= Validation =======
+  private get currentUserIds(): string[] {
+    const account = this.account || this.msal?.getActiveAccount() || undefined;
+    const claims = (account?.idTokenClaims || {}) as Record<string, any>;
+    const sp = (window as any)._spPageContextInfo || (window.parent as any)?._spPageContextInfo;
+    return [account?.username, account?.localAccountId, claims.email, claims.preferred_username, sp?.userEmail, sp?.userLoginName]
+      .filter(Boolean);
+  }
+
+  private get validation(): ValidationResult {
+    return validateApprovers(this.rows, this.selections, {
+      required: this.required,
+      noDuplicates: this.noDuplicateApprovers,
+      noSelfApproval: this.noSelfApproval,
+      requireFilledRows: this.requireFilledRows,
+      minFilledRows: this.minFilledRows,
+      columns: this.columns,
+    }, this.currentUserIds, this.t);
+  }
+
+  // An invalid list is reported to the form as an empty value, which blocks submit on a
+  // required control. The JSON textbox still receives the data. Not being required only
+  // drops the at-least-one-approver check, so an optional list left empty stays valid.
+  private reportValidity(force = false) {
+    const valid = this.validation.valid;
+    if (!force && valid === this.reportedValid) return;
+    this.reportedValid = valid;
+    console.log('Reporting validity to Nintex:', valid);
+    this.dispatchEvent(new CustomEvent('ntx-value-change', {
+      detail: valid ? this.value : '',
+      bubbles: true,
+      composed: true,
+      cancelable: false
+    }));
+  }
+
+  private onFocusOut(e: FocusEvent) {
+    const next = e.relatedTarget as Node | null;
+    if (next && this.renderRoot.contains(next)) return;
+    this.validationVisible = true;
+  }
+
   private saveValue() {
-    if (this.displayMode) {
-      console.log('Display mode, skipping saveValue');
+    if (!this.editable) {
+      console.log('Not editable, skipping saveValue');
       return;
     }
-    const newValue = JSON.stringify(this.rows);
-    const jsonValue = JSON.stringify(this.rows, null, 2);
+    const payload = serializeApprovers(this.rows, this.stages, this.selections);
+    const newValue = JSON.stringify(payload);
+    const jsonValue = JSON.stringify(payload, null, 2);
     if (this.value !== newValue) {
       this.value = newValue;
+      this.valueRejected = false;
       console.log('Updated this.value:', this.value);
-      this.dispatchEvent(new CustomEvent('ntx-value-change', {
-        detail: this.value,
-        bubbles: true,
-        composed: true,
-        cancelable: false
-      }));
+      this.reportValidity(true);
       this.dispatchEvent(new CustomEvent('change', { detail: this.value }));
     } else {
       console.log('No change in value, skipping update');
     }
 
-    if (this.jsonTargetId) {
-      let target = this.targetDocument.getElementById(this.jsonTargetId) as HTMLTextAreaElement | null;
-      if (target) {
-        target.value = jsonValue;
-        setTimeout(() => {
-          target.focus();
-          target.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
-          target.dispatchEvent(new Event('change', { bubbles: true, composed: true }));
-          target.dispatchEvent(new CustomEvent('ntx-value-change', {
-            detail: target.value,
-            bubbles: true,
-            composed: true,
-            cancelable: false
-          }));
-          target.dispatchEvent(new CustomEvent('nf-value-changed', {
-            detail: target.value,
-            bubbles: true,
-            composed: true,
-            cancelable: false
-          }));
-          target.blur();
-        }, 100);
-        console.log('Updated textbox with ID:', this.jsonTargetId, 'Value:', jsonValue);
-      } else {
-        console.warn('Textbox not found for ID:', this.jsonTargetId);
-      }
+    if (this.target) {
+      this.target.write(jsonValue);
+      console.log('Updated textbox with ID:', this.jsonTargetId, 'Value:', jsonValue);
+    }
+  }
 
-      try {
-        if ((window as any).Nintex?.FormFiller?.extensibility?.controlUtils?.updateControlValue) {
-          (window as any).Nintex.FormFiller.extensibility.controlUtils.updateControlValue(
-            this.jsonTargetId,
-            jsonValue
-          );
-          console.log('Used Nintex API to update control value for ID:', this.jsonTargetId);
-        }
-      } catch (e) {
-        console.error('Failed to use Nintex API:', e);
-      }
+  // ======= JSON textbox =======
+  private attachTarget() {
+    const id = this.jsonTargetId?.trim();
+    if (this.target?.id === id) {
+      this.target.attach();
+      return;
+    }
+    this.target?.detach();
+    this.target = id
+      ? new TargetTextbox(this.targetDocument, id, raw => this.onTargetChange(raw), raw => this.onTargetAttached(raw))
+      : undefined;
+    this.target?.attach();
+  }
+
+  // Found after the rows were loaded: take its value, or fill it when it is still empty
+  private onTargetAttached(raw: string) {
+    if (!this.loaded) return;
+    if (raw.trim()) this.onTargetChange(raw);
+    else this.saveValue();
+  }
+
+  // Form rules, scripts or a restored draft changed the textbox. Our own writes, even
+  // reformatted, compare equal and keep the rows; only a different value rebuilds them.
+  private onTargetChange(raw: string) {
+    if (this.sameJson(raw, this.value)) return;
+    console.log('JSON textbox changed outside the control, reloading:', raw);
+    this.value = raw;
+    this.loadValue();
+  }
+
+  private sameJson(a: string, b: string): boolean {
+    if (a === b) return true;
+    try {
+      return JSON.stringify(JSON.parse(a)) === JSON.stringify(JSON.parse(b));
+    } catch {
+      return false;
     }
   }
 
   private ensureMinRows() {
-    if (this.displayMode) return;
-    console.log('Ensuring min rows:', { currentRows: this.rows.length, minRows: this.minRows });
-    while (this.rows.length < this.minRows) {
-      this.rows.push({ order: this.rows.length + 1, approver: '' });
+    if (!this.editable) return;
+    console.log('Ensuring min rows:', { currentRows: this.rows.length, minRows: this.effectiveMinRows });
+    while (this.rows.length < this.effectiveMinRows) {
+      this.rows.push(this.newRow(this.stages.length + 1));
     }
+    this.renumberOrders();
     console.log('After min rows:', { rows: this.rows, rowCount: this.rows.length });
     this.requestUpdate();
+    if (this.valueRejected) {
+      console.warn('Saved value was rejected, not overwriting it with padded rows');
+      return;
+    }
     this.saveValue();
   }
 
+  // Renumbers orders and compacts stage numbers to 1..n, carrying each stage's mode along.
+  // Without stages enabled every row is its own sequential stage.
   private renumberOrders() { 
-    this.rows.forEach((r, i) => r.order = i + 1); 
-    console.log('Renumbered rows:', this.rows);
+    if (!this.enableStages) this.rows.forEach((r, i) => r.stage = i + 1);
+    const remap = new Map<number, number>();
+    const stages: Stage[] = [];
+    this.rows.forEach((r, i) => {
+      r.order = i + 1;
+      if (!remap.has(r.stage)) {
+        remap.set(r.stage, remap.size + 1);
+        stages.push(this.stages[r.stage - 1] || { mode: 'all' });
+      }
+      r.stage = remap.get(r.stage)!;
+    });
+    this.stages = stages;
+    console.log('Renumbered rows:', this.rows, 'stages:', this.stages);
+  }
+
+  private newRow(stage: number): ApproverRow {
+    if (stage > this.stages.length) this.stages = [...this.stages, { mode: 'all' }];
+    return { order: this.rows.length + 1, stage, approver: '' };
+  }
+
+  // Reorders rows to the given old indices (omitted indices are dropped), keeping
+  // terms, selections and suggestions aligned with their rows.
+  private applyRowOrder(oldIndices: number[]) {
+    const newTerms: Record<number, string> = {};
+    const newSelections: Record<number, Person | null> = {};
+    const newSuggestions: Record<number, Person[]> = {};
+    oldIndices.forEach((oldIndex, i) => {
+      newTerms[i] = this.terms[oldIndex] || '';
+      newSelections[i] = this.selections[oldIndex] || null;
+      newSuggestions[i] = this.suggestions[oldIndex] || [];
+    });
+    this.rows = oldIndices.map(i => this.rows[i]);
+    this.terms = newTerms;
+    this.selections = newSelections;
+    this.suggestions = newSuggestions;
   }
 
   // ======= MSAL helpers =======
@@ -427,107 +1100,448 @@ export default class ApproversRepeater extends LitElement {
     return (this.redirectOrigin?.trim()) ? this.redirectOrigin.trim().replace(/\/$/, '') : window.location.origin; 
   }
 
-  private async ensureMsal(): Promise<void> {
-    if (this.msal) return;
+  private get authority(): string {
+    const host = (this.authorityHost?.trim() || DEFAULT_AUTHORITY_HOST).replace(/\/+$/, '');
+    return `${host}/${this.tenantId || 'common'}`;
+  }
+
+  private get graphBase(): string {
+    return (this.graphBaseUrl?.trim() || DEFAULT_GRAPH_BASE).replace(/\/+$/, '');
+  }
+
+  // Bare Graph scopes such as User.Read only mean the public cloud, so qualify them
+  // with the configured Graph host elsewhere, e.g. https://graph.microsoft.us/User.Read
+  private get graphScopes(): string[] {
+    const base = this.graphBase;
+    return this.scopesCsv.split(',').map(s => s.trim()).filter(Boolean).map(s =>
+      base === DEFAULT_GRAPH_BASE || s.includes('/') || ['openid', 'profile', 'offline_access', 'email'].includes(s.toLowerCase())
+        ? s
+        : `${base}/${s}`);
+  }
+
+  private get signInHint(): string | undefined {
+    const sp = (window as any)._spPageContextInfo || (window.parent as any)?._spPageContextInfo;
+    return this.loginHint?.trim() || sp?.userEmail || undefined;
+  }
+
+  private setAccount(account: AccountInfo | null | undefined) {
+    if (!account) return;
+    this.account = account;
+    this.msal!.setActiveAccount(account);
+    this.signInRequired = false;
+  }
+
+  private ensureMsal(): Promise<void> {
     if (!this.clientId) {
       console.error('Client ID is missing');
-      throw new Error('Client ID is required.');
+      return Promise.reject(new Error('Client ID is required.'));
     }
+    this.msalReady ??= this.initMsal();
+    return this.msalReady;
+  }
+
+  private async initMsal(): Promise<void> {
     this.msal = new PublicClientApplication({
-      auth: { clientId: this.clientId, authority: `https://login.microsoftonline.com/${this.tenantId || 'common'}`, redirectUri: this.getRedirectUri() },
+      auth: { clientId: this.clientId, authority: this.authority, redirectUri: this.getRedirectUri() },
       cache: { cacheLocation: 'sessionStorage', storeAuthStateInCookie: false },
     });
     await this.msal.initialize().catch((e) => {
       console.error('MSAL initialization failed:', e);
     });
-    try { await this.msal.handleRedirectPromise(); } catch (e) { console.error('MSAL redirect handling failed:', e); }
+    try {
+      const result = await this.msal.handleRedirectPromise();
+      if (result?.account) {
+        this.setAccount(result.account);
+        console.log('Redirect sign-in completed, account:', result.account);
+      }
+    } catch (e: any) {
+      console.error('MSAL redirect handling failed:', e);
+      this.errorMsg = this.t('signInFailed', { detail: e?.message || e });
+    }
   }
 
-  private async ensureAccount(scopes: string[]): Promise<void> {
+  // Never prompts: cached account first, then ssoSilent with the login hint. Interactive
+  // sign-in only runs from the Sign in button, where the browser allows pop-ups.
+  private async getAccessToken(scopes: string[]): Promise<string> {
     await this.ensureMsal();
-    this.account = this.msal!.getActiveAccount() || this.msal!.getAllAccounts()[0];
-    if (!this.account) {
-      console.log('No active account, initiating login');
-      const res = await this.msal!.loginPopup({ scopes });
-      this.account = res.account!;
-      this.msal!.setActiveAccount(this.account);
+    this.account = this.account || this.msal!.getActiveAccount() || this.msal!.getAllAccounts()[0];
+    if (this.account) {
+      try {
+        const token = (await this.msal!.acquireTokenSilent({ scopes, account: this.account })).accessToken;
+        console.log('Acquired token silently');
+        return token;
+      } catch (e) {
+        console.log('Silent token acquisition failed:', e);
+      }
+    }
+    const loginHint = this.signInHint;
+    if (loginHint) {
+      try {
+        const res = await this.msal!.ssoSilent({ scopes, loginHint });
+        this.setAccount(res.account);
+        console.log('Signed in with ssoSilent:', loginHint);
+        return res.accessToken;
+      } catch (e) {
+        console.log('ssoSilent failed:', e);
+      }
+    }
+    this.signInRequired = true;
+    throw new SignInRequiredError();
+  }
+
+  private async signIn() {
+    if (this.signingIn) return;
+    this.signingIn = true;
+    this.errorMsg = '';
+    const scopes = this.graphScopes;
+    const loginHint = this.signInHint;
+    try {
+      await this.ensureMsal();
+      if (this.signInFlow === 'redirect') {
+        // Leaves the page; initMsal picks up the result when the form loads again
+        await this.msal!.loginRedirect({ scopes, loginHint, redirectStartPage: window.location.href });
+        return;
+      }
+      const res = await this.msal!.loginPopup({ scopes, loginHint });
+      this.setAccount(res.account);
       console.log('Login successful, account:', this.account);
+      await this.resolvePendingRows();
+    } catch (e: any) {
+      console.error('Sign-in failed:', e);
+      this.errorMsg = e?.errorCode === 'popup_window_error' || e?.errorCode === 'empty_window_error'
+        ? this.t('popupBlocked')
+        : this.t('signInFailed', { detail: e?.message || e });
+    } finally {
+      this.signingIn = false;
     }
   }
 
-  private async getAccessToken(scopes: string[]): Promise<string> {
-    await this.ensureAccount(scopes);
+  // Rows left unresolved while signed out
+  private async resolvePendingRows() {
+    const pending = this.rows.filter((row, i) => row.approver && !this.selections[i]).map(row => row.approver);
+    if (pending.length) await this.resolveLogins(pending);
+    if (this.editable && !this.valueRejected) this.saveValue();
+    this.requestUpdate();
+  }
+
+  // ======= Directory provider =======
+  private get directory(): DirectoryProvider {
+    const scope = this.directoryScope;
+    const key = JSON.stringify([this.directoryProvider, this.graphEndpoint, this.graphBaseUrl, this.maxSuggestions, this.sharePointSiteUrl, this.staticDirectoryJson, scope]);
+    if (this.providerInstance && key === this.providerKey) return this.providerInstance;
+    const maxSuggestions = this.maxSuggestions;
+    switch (this.directoryProvider) {
+      case 'sharepoint':
+        this.providerInstance = new SharePointDirectoryProvider({ siteUrl: this.sharePointSiteUrl, maxSuggestions, scope });
+        break;
+      case 'static':
+        this.providerInstance = new StaticDirectoryProvider({ json: this.staticDirectoryJson, maxSuggestions, scope });
+        break;
+      default:
+        this.providerInstance = new GraphDirectoryProvider({
+          getAccessToken: () => this.getAccessToken(this.graphScopes),
+          baseUrl: this.graphBase,
+          endpoint: this.graphEndpoint,
+          maxSuggestions,
+          scope,
+        });
+    }
+    this.providerKey = key;
+    console.log('Directory provider:', this.directoryProvider);
+    return this.providerInstance;
+  }
+
+  // ======= Row columns =======
+  private get columns(): ColumnDef[] {
+    if (this.columnsKey === this.rowColumnsJson) return this.columnsCache;
+    this.columnsKey = this.rowColumnsJson;
     try {
-      const token = (await this.msal!.acquireTokenSilent({ scopes, account: this.account! })).accessToken;
-      console.log('Acquired token silently');
-      return token;
-    } catch {
-      console.log('Silent token acquisition failed, using popup');
-      return (await this.msal!.acquireTokenPopup({ scopes, account: this.account! })).accessToken;
+      this.columnsCache = parseColumns(this.rowColumnsJson);
+      this.columnsError = '';
+    } catch (err: any) {
+      console.error('Invalid row columns:', err);
+      this.columnsCache = [];
+      this.columnsError = err?.message || 'Invalid row columns.';
     }
+    console.log('Row columns:', this.columnsCache);
+    return this.columnsCache;
   }
 
-  // ======= Graph user lookup =======
-  private async fetchUserDetails(email: string): Promise<Person> {
-    const scopes = this.scopesCsv.split(',').map(s => s.trim()).filter(Boolean);
-    const token = await this.getAccessToken(scopes);
-    const url = `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(email)}`;
-    console.log('Fetching user details:', { email, url });
-    const res = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
-    if (!res.ok) {
-      console.error('Graph user lookup failed:', res.status, res.statusText);
-      throw new Error(`Graph user lookup failed: ${res.status} ${res.statusText}`);
+  private onFieldChange(index: number, column: ColumnDef, e: Event) {
+    if (!this.editable) {
+      console.log('Not editable, ignoring field change for row:', index);
+      return;
     }
-    const user = await res.json() as GraphUser;
-    return {
-      id: user.id,
-      displayName: user.displayName,
-      email: user.mail || user.userPrincipalName,
-      login: user.userPrincipalName || user.mail || user.id
-    };
+    const value = (e.target as HTMLInputElement | HTMLSelectElement).value.trim();
+    const fields = { ...this.rows[index].fields };
+    if (value) fields[column.key] = value;
+    else delete fields[column.key];
+    this.rows[index].fields = Object.keys(fields).length ? fields : undefined;
+    console.log('Row field changed:', { index, key: column.key, value });
+    this.saveValue();
+    this.requestUpdate();
   }
 
-  // ======= Graph search =======
-  private async graphSearch(term: string): Promise<Person[]> {
-    if (this.displayMode) {
-      console.log('Display mode, skipping graph search');
+  private renderField(index: number, row: ApproverRow, column: ColumnDef) {
+    const value = row.fields?.[column.key] || '';
+    const label = this.t('fieldFor', { label: column.label, order: row.order });
+    if (column.type === 'choice') {
+      return html`
+        <select class="field-input" aria-label=${label} ?required=${column.required} @change=${(e: Event) => this.onFieldChange(index, column, e)}>
+          <option value="" ?selected=${!value}>${column.label}${column.required ? ' *' : ''}</option>
+          ${column.choices.map(c => html`<option value=${c} ?selected=${c === value}>${c}</option>`)}
+        </select>`;
+    }
+    return html`
+      <input
+        class="field-input"
+        type=${column.type === 'date' ? 'date' : 'text'}
+        placeholder=${`${column.label}${column.required ? ' *' : ''}`}
+        title=${column.label}
+        aria-label=${label}
+        ?required=${column.required}
+        .value=${value}
+        @change=${(e: Event) => this.onFieldChange(index, column, e)}
+      />`;
+  }
+
+  // ======= User lookup =======
+  // Resolves many logins through the provider's bulk lookup, applying results as
+  // they arrive so rows render progressively.
+  private async resolveLogins(logins: string[]): Promise<void> {
+    const missing: string[] = [];
+    for (const login of new Set(logins.map(l => l.toLowerCase()))) {
+      const cached = getCachedPerson(login);
+      if (cached) this.applyResolved(login, cached);
+      else missing.push(login);
+    }
+    if (!missing.length) return;
+    this.resolving = new Set([...this.resolving, ...missing]);
+    console.log('Resolving approvers:', missing);
+
+    const signal = this.lookupAbort.signal;
+    await this.directory.resolveMany(missing, (login, person, err) => {
+      if (signal.aborted) return;
+      if (person) {
+        cachePerson(person, login);
+        this.applyResolved(login, person);
+      } else {
+        this.applyUnresolved(login, err);
+      }
+    }, signal).catch(err => {
+      if (!isAbortError(err)) throw err;
+    });
+  }
+
+  // Applied by login rather than row index so rows moved mid-resolution still match
+  private applyResolved(login: string, person: Person) {
+    const selections = { ...this.selections };
+    const terms = { ...this.terms };
+    this.rows.forEach((row, i) => {
+      if (row.approver.toLowerCase() === login && !selections[i]) {
+        selections[i] = person;
+        terms[i] = person.displayName || row.approver;
+      }
+    });
+    this.selections = selections;
+    this.terms = terms;
+    this.resolving = new Set([...this.resolving].filter(l => l !== login));
+  }
+
+  private applyUnresolved(login: string, err: unknown) {
+    console.warn(`Failed to fetch user details for ${login}:`, err);
+    const selections = { ...this.selections };
+    const terms = { ...this.terms };
+    if (err instanceof SignInRequiredError) {
+      // Left unresolved so signing in can finish them
+      this.rows.forEach((row, i) => {
+        if (row.approver.toLowerCase() === login && !selections[i]) terms[i] = row.approver;
+      });
+      this.terms = terms;
+      this.resolving = new Set([...this.resolving].filter(l => l !== login));
+      return;
+    }
+    this.rows.forEach((row, i) => {
+      if (row.approver.toLowerCase() === login && !selections[i]) {
+        selections[i] = { id: row.approver, displayName: row.approver, email: row.approver, login: row.approver };
+        terms[i] = row.approver;
+      }
+    });
+    this.selections = selections;
+    this.terms = terms;
+    this.resolving = new Set([...this.resolving].filter(l => l !== login));
+    const lookupFailed = err instanceof RequestError && err.kind !== 'not-found' && err.kind !== 'http';
+    this.errorMsg = lookupFailed ? this.requestErrorMessage(err) : this.t('detailsFailed');
+  }
+
+  // ======= Directory scope =======
+  private get directoryScope(): DirectoryScope {
+    return buildScope({
+      allowedDomains: this.allowedDomains,
+      excludedDomains: this.excludedDomains,
+      allowedDepartments: this.allowedDepartments,
+      allowedCompanies: this.allowedCompanies,
+      excludeDisabledAccounts: this.excludeDisabledAccounts,
+      excludeGuests: this.excludeGuests,
+    });
+  }
+
+  // ======= People search =======
+  private async searchDirectory(term: string, signal?: AbortSignal): Promise<Person[]> {
+    if (!this.editable) {
+      console.log('Not editable, skipping directory search');
       return [];
     }
-    const scopes = this.scopesCsv.split(',').map(s => s.trim()).filter(Boolean);
-    const token = await this.getAccessToken(scopes);
-    const top = Math.max(1, Math.min(this.maxSuggestions || 8, 25));
-    console.log('Graph search:', { term, endpoint: this.graphEndpoint, top });
-    if (this.graphEndpoint === 'users') {
-      const url = `https://graph.microsoft.com/v1.0/users?$search="displayName:${encodeURIComponent(term)}"&$filter=endsWith(mail,'yageo.com')&$orderBy=displayName&$top=${top}`;
-      console.log('Url', url);
-      const res = await fetch(url, { headers: { Authorization: `Bearer ${token}`, 'ConsistencyLevel': 'eventual' } });
-      if (!res.ok) {
-        console.error('Graph /users search failed:', res.status, res.statusText);
-        throw new Error(`Graph /users search failed: ${res.status} ${res.statusText}`);
-      }
-      const data = await res.json() as { value: GraphUser[] };
-      const results = (data.value || []).map(u => ({ id: u.id, displayName: u.displayName, email: u.mail || u.userPrincipalName, login: u.userPrincipalName || u.mail || u.id }));
-      console.log('Graph /users results:', results);
-      return results;
+    const directory = this.directory;
+    const searchGroups = this.groupMode !== 'none' ? directory.searchGroups?.bind(directory) : undefined;
+    const withGroups = !!searchGroups;
+    const key = JSON.stringify([this.providerKey, withGroups, term.trim().toLowerCase()]);
+    const cached = this.searchCache.get(key);
+    if (cached) {
+      console.log('Using cached search results:', term);
+      return cached;
+    }
+    let results: Person[];
+    let complete = true;
+    if (searchGroups) {
+      // Each source returns up to maxSuggestions; groups keep up to half of the merged list, more when there are fewer people.
+      // A failed group search (e.g. no group scope granted) still shows the people.
+      const [fromPeople, fromGroups] = await Promise.allSettled([directory.search(term, signal), searchGroups(term, signal)]);
+      if (fromPeople.status === 'rejected') throw fromPeople.reason;
+      const people = fromPeople.value;
+      let groups: Person[] = [];
+      if (fromGroups.status === 'fulfilled') groups = fromGroups.value;
+      else {
+        signal?.throwIfAborted();
+        console.warn('Group search failed, showing people only:', fromGroups.reason);
+        complete = false;
+      }
+      const top = clampTop(this.maxSuggestions);
+      const groupRoom = Math.min(groups.length, Math.max(Math.ceil(top / 2), top - people.length));
+      results = [...people.slice(0, top - groupRoom), ...groups.slice(0, groupRoom)];
     } else {
-      const url = `https://graph.microsoft.com/v1.0/me/people?$search="${encodeURIComponent(term)}"&$top=${top}`;
-      console.log('Url', url);
-      const res = await fetch(url, { headers: { Authorization: `Bearer ${token}`, 'ConsistencyLevel': 'eventual' } });
-      if (!res.ok) {
-        console.error('Graph /me/people search failed:', res.status, res.statusText);
-        throw new Error(`Graph /me/people search failed: ${res.status} ${res.statusText}`);
+      results = await directory.search(term, signal);
+    }
+    if (complete) this.searchCache.set(key, results);
+    return results;
+  }
+
+  // ======= External approvers =======
+  private get externalDomainList(): string[] {
+    return parseDomains(this.externalDomains);
+  }
+
+  // Offered when search has no match. Search (e.g. /me/people) can miss colleagues, so the
+  // address is looked up first: a directory user is offered as such, one outside the
+  // directory scope not at all. Then an existing B2B guest, otherwise the address itself.
+  private async externalSuggestions(term: string, signal?: AbortSignal): Promise<Person[]> {
+    if (!this.allowExternal || externalProblem(term, this.externalDomainList)) return [];
+    const directory = this.directory;
+    try {
+      const person = await directory.resolveInScope(term.trim(), signal);
+      console.log('External address is in the directory:', term, person);
+      return person ? [person] : [];
+    } catch (err) {
+      // Without User.ReadBasic.All the address cannot be checked; the domain allow-list still applies
+      const forbidden = err instanceof RequestError && err.kind === 'forbidden';
+      if (!forbidden && !(err instanceof RequestError && err.kind === 'not-found')) throw err;
+      if (forbidden) console.warn('Not allowed to look up the address in the directory, offering it as external:', term);
+    }
+    if (this.externalGuestLookup && directory.findGuest) {
+      try {
+        const guest = await directory.findGuest(term, signal);
+        if (guest) {
+          console.log('Found guest account for external address:', term, guest);
+          return [guest];
+        }
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        console.warn('Guest lookup failed, offering the address as external:', term, err);
+      }
+    }
+    return [externalPerson(term)];
+  }
+
+  private cancelSearch(index: number) {
+    clearTimeout(this.searchTimers.get(index));
+    this.searchTimers.delete(index);
+    this.searchAborts.get(index)?.abort();
+    this.searchAborts.delete(index);
+  }
+
+  // What to tell the requester when a directory call fails; '' when the Sign in button says it
+  private requestErrorMessage(err: any): string {
+    if (err instanceof SignInRequiredError) return '';
+    if (err instanceof RequestError) {
+      switch (err.kind) {
+        case 'auth': return this.t('errorAuth');
+        case 'forbidden': return this.t('errorForbidden');
+        case 'throttled': return this.t('errorThrottled');
+        case 'unavailable': return this.t('errorUnavailable');
+        case 'offline': return this.t('errorOffline');
+      }
+    }
+    return this.t('searchFailed', { detail: err?.message || err });
+  }
+
+  // Replaces the picked row with the group's members (skipping people already chosen),
+  // inserting the rest right after it in the same stage, within maxRows.
+  private async expandGroupIntoRows(index: number, group: Person) {
+    const directory = this.directory;
+    if (!directory.expandGroup) return;
+    this.loading = true;
+    this.announcement = this.t('addingMembers', { group: group.displayName });
+    try {
+      const members = await directory.expandGroup(group.id, this.lookupAbort.signal);
+      const taken = new Set(this.rows.filter((_, i) => i !== index).map(r => r.approver.toLowerCase()).filter(Boolean));
+      const fresh = members.filter(m => !taken.has(m.login.toLowerCase()));
+      if (!fresh.length) {
+        this.errorMsg = this.t('noNewMembers', { group: group.displayName });
+        return;
       }
-      const data = await res.json() as { value: GraphUser[] };
-      const results = (data.value || []).map(p => ({ id: p.id, displayName: p.displayName, email: (p as any).mail || (p as any).userPrincipalName, login: (p as any).userPrincipalName || (p as any).mail || p.id }));
-      console.log('Graph /me/people results:', results);
-      return results;
+      const room = this.maxRows - this.rows.length + 1; // the picked row is reused
+      const added = fresh.slice(0, room);
+      if (fresh.length > room) {
+        this.errorMsg = this.t('someMembersAdded', { added: room, total: fresh.length, group: group.displayName, max: this.maxRows });
+      }
+      const stage = this.rows[index].stage;
+      const start = this.rows.length;
+      const selections = { ...this.selections, [index]: added[0] };
+      const terms = { ...this.terms, [index]: added[0].displayName };
+      this.rows[index].approver = added[0].login;
+      this.rows[index].principalType = 'user';
+      added.slice(1).forEach((m, k) => {
+        const row = this.newRow(stage);
+        row.approver = m.login;
+        this.rows.push(row);
+        selections[start + k] = m;
+        terms[start + k] = m.displayName;
+      });
+      added.forEach(m => cachePerson(m));
+      this.selections = selections;
+      this.terms = terms;
+      const order = this.rows.map((_, i) => i);
+      order.splice(index + 1, 0, ...order.splice(start));
+      this.applyRowOrder(order);
+      this.renumberOrders();
+      this.renderTick++;
+      this.announcement = this.t('membersAdded', { count: added.length, group: group.displayName });
+      console.log('Expanded group into rows:', group, added);
+      this.saveValue();
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error('Group expansion failed:', group, err);
+      this.errorMsg = this.t('membersFailed', { group: group.displayName, detail: err?.message || err });
+    } finally {
+      this.loading = false;
+      this.requestUpdate();
     }
   }
 
   // ======= Per-row picker handlers =======
   private onRowInput(index: number, e: Event) {
-    if (this.displayMode) {
-      console.log('Display mode, ignoring input for row:', index);
+    if (!this.editable || this.rows[index]?.locked) {
+      console.log('Not editable or locked row, ignoring input for row:', index);
       return;
     }
     const t = e.target as HTMLInputElement;
@@ -535,80 +1549,868 @@ export default class ApproversRepeater extends LitElement {
     this.activeRowIndex = index;
     this.errorMsg = '';
     console.log('Row input:', { index, value: t.value });
-    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.cancelSearch(index);
     if ((t.value || '').length < (this.minChars || 2)) {
       const { [index]: _, ...rest } = this.suggestions;
       this.suggestions = rest;
       console.log('Input too short, cleared suggestions for row:', index);
       return;
     }
-    this.debounceTimer = setTimeout(async () => {
+    const term = t.value;
+    this.searchTimers.set(index, setTimeout(async () => {
+      this.searchTimers.delete(index);
+      const controller = new AbortController();
+      this.searchAborts.set(index, controller);
       this.loading = true;
+      this.announcement = this.t('searching');
       try {
-        const results = await this.graphSearch(t.value);
+        let results = await this.searchDirectory(term, controller.signal);
+        if (!results.length) results = await this.externalSuggestions(term, controller.signal);
+        if (controller.signal.aborted) return;
         this.suggestions = { ...this.suggestions, [index]: results };
+        this.highlightedOption = -1;
+        this.announcement = results.length
+          ? this.t('suggestionsAvailable', { count: results.length })
+          : this.t('noMatches');
         console.log('Suggestions updated for row:', index, results);
       } catch (err: any) {
-        this.errorMsg = err?.message || 'Search error.';
+        // A newer search for the row replaced this one
+        if (controller.signal.aborted || isAbortError(err)) return;
+        this.announcement = '';
+        this.errorMsg = this.requestErrorMessage(err);
         const { [index]: _, ...rest } = this.suggestions;
         this.suggestions = rest;
         console.error('Search error for row:', index, err);
       } finally {
-        this.loading = false;
+        if (this.searchAborts.get(index) === controller) this.searchAborts.delete(index);
+        this.loading = this.searchAborts.size > 0;
         this.requestUpdate();
       }
-    }, 200);
+    }, 200));
   }
 
   private onPick(index: number, p: Person) {
-    if (this.displayMode) {
-      console.log('Display mode, ignoring selection for row:', index);
+    if (!this.editable) {
+      console.log('Not editable, ignoring selection for row:', index);
+      return;
+    }
+    if (p.principalType === 'group' && this.groupMode === 'expand') {
+      const { [index]: _, ...rest } = this.suggestions;
+      this.suggestions = rest;
+      this.activeRowIndex = null;
+      this.highlightedOption = -1;
+      this.expandGroupIntoRows(index, p);
       return;
     }
+    this.cancelSearch(index);
     this.selections = { ...this.selections, [index]: p };
     this.terms = { ...this.terms, [index]: p.displayName || '' };
+    // A backup belongs to the approver it covers for
+    if ((this.rows[index].approver || '').toLowerCase() !== (p.login || '').toLowerCase()) this.rows[index].backup = undefined;
     this.rows[index].approver = p.login || '';
+    this.rows[index].principalType = p.principalType === 'group' ? 'group' : 'user';
+    this.rows[index].external = p.external || undefined;
+    if (!p.external) cachePerson(p);
     console.log('Selected person for row:', index, p);
     this.saveValue();
+    this.checkAvailability(p);
     const { [index]: _, ...rest } = this.suggestions;
     this.suggestions = rest;
     this.activeRowIndex = null;
+    this.highlightedOption = -1;
+    this.announcement = this.t('selected', { name: p.displayName, order: this.rows[index].order });
     this.requestUpdate();
   }
 
-  private clearRow(index: number) {
-    if (this.displayMode) {
-      console.log('Display mode, ignoring clear for row:', index);
+  private closeSuggestions(index: number) {
+    if (!this.suggestions[index]) return;
+    const { [index]: _, ...rest } = this.suggestions;
+    this.suggestions = rest;
+    this.highlightedOption = -1;
+    console.log('Closed suggestions for row:', index);
+  }
+
+  // WAI-ARIA combobox keyboard support: arrows move through suggestions, Enter picks, Escape closes
+  private onRowKeydown(index: number, e: KeyboardEvent) {
+    if (!this.editable) return;
+    const sugg = this.suggestions[index] || [];
+    const open = this.activeRowIndex === index && sugg.length > 0;
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (!sugg.length) return;
+        e.preventDefault();
+        if (!open) {
+          this.activeRowIndex = index;
+          this.highlightedOption = e.key === 'ArrowDown' ? 0 : sugg.length - 1;
+        } else {
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          const from = this.highlightedOption < 0 && step < 0 ? 0 : this.highlightedOption;
+          this.highlightedOption = (from + step + sugg.length) % sugg.length;
+        }
+        this.scrollHighlightedIntoView(index);
+        break;
+      }
+      case 'Enter':
+        if (open && this.highlightedOption >= 0) {
+          e.preventDefault();
+          this.onPick(index, sugg[this.highlightedOption]);
+        }
+        break;
+      case 'Escape':
+        if (open) {
+          e.preventDefault();
+          this.closeSuggestions(index);
+          this.announcement = this.t('suggestionsClosed');
+        }
+        break;
+    }
+  }
+
+  private async scrollHighlightedIntoView(index: number) {
+    await this.updateComplete;
+    this.renderRoot.querySelector(`#opt-${index}-${this.highlightedOption}`)?.scrollIntoView({ block: 'nearest' });
+  }
+
+  // Restores focus after row ops re-render; falls back to the row input, then the add button
+  private async focusRow(index: number, control: 'input' | 'move-up' | 'move-down' | 'drag-handle' = 'input') {
+    await this.updateComplete;
+    const row = this.renderRoot.querySelector(`.rowwrap[data-index="${index}"]`);
+    let target = row?.querySelector<HTMLButtonElement | HTMLInputElement>(`.${control}`);
+    if (!target || target.disabled) target = row?.querySelector<HTMLInputElement>('.input');
+    (target || this.renderRoot.querySelector<HTMLElement>('.add-row'))?.focus();
+  }
+
+  private clearRow(index: number) {
+    if (!this.editable) {
+      console.log('Not editable, ignoring clear for row:', index);
+      return;
+    }
+    if (this.rows[index]?.locked) {
+      console.log('Row is locked, ignoring clear:', index);
       return;
     }
+    this.cancelSearch(index);
     this.selections = { ...this.selections, [index]: null };
     this.terms = { ...this.terms, [index]: '' };
     this.rows[index].approver = '';
+    this.rows[index].principalType = 'user';
+    this.rows[index].external = undefined;
+    this.rows[index].backup = undefined;
     console.log('Cleared row:', index);
     this.saveValue();
+    this.announcement = this.t('cleared', { order: this.rows[index].order });
     this.requestUpdate();
+    this.focusRow(index);
   }
 
   // ======= Repeater row ops =======
   private addRow = () => {
-    if (this.displayMode) {
-      console.log('Display mode, ignoring add row');
+    if (!this.editable) {
+      console.log('Not editable, ignoring add row');
       return;
     }
     if (this.rows.length >= this.maxRows) {
       console.log('Cannot add row, maxRows reached:', this.maxRows);
       return;
     }
-    this.rows.push({ order: this.rows.length + 1, approver: '' });
+    this.rows.push(this.newRow(this.stages.length + 1));
+    this.renumberOrders();
     console.log('Added row:', { rowCount: this.rows.length, rows: this.rows });
     this.renderTick++;
+    this.announcement = this.t('rowAdded', { order: this.rows.length });
     this.requestUpdate();
     this.saveValue();
+    this.focusRow(this.rows.length - 1);
   };
 
+  // Puts people into rows: empty rows are filled first, then new rows are appended, each
+  // as its own stage. People already selected are skipped and nothing goes past maxRows.
+  private addPeopleToRows(people: Person[], replace = false): { added: Person[]; skipped: Person[]; overflow: Person[] } {
+    if (replace) {
+      // Locked rows survive a replace, so requesters cannot use it to drop them
+      this.applyRowOrder(this.rows.map((r, i) => r.locked ? i : -1).filter(i => i >= 0));
+      this.renumberOrders();
+    }
+    const taken = new Set(this.rows.map(r => r.approver.toLowerCase()).filter(Boolean));
+    const added: Person[] = [];
+    const skipped: Person[] = [];
+    const overflow: Person[] = [];
+    const selections = { ...this.selections };
+    const terms = { ...this.terms };
+    for (const p of people) {
+      const login = (p.login || '').toLowerCase();
+      if (!login || taken.has(login)) {
+        skipped.push(p);
+        continue;
+      }
+      let index = this.rows.findIndex(r => !r.approver);
+      if (index < 0) {
+        if (this.rows.length >= this.maxRows) {
+          overflow.push(p);
+          continue;
+        }
+        this.rows.push(this.newRow(this.stages.length + 1));
+        index = this.rows.length - 1;
+      }
+      this.rows[index].approver = p.login;
+      this.rows[index].principalType = p.principalType === 'group' ? 'group' : 'user';
+      selections[index] = p;
+      terms[index] = p.displayName || p.login;
+      taken.add(login);
+      added.push(p);
+    }
+    this.selections = selections;
+    this.terms = terms;
+    this.renumberOrders();
+    this.renderTick++;
+    console.log('Added people to rows:', { added, skipped, overflow });
+    this.requestUpdate();
+    this.saveValue();
+    this.ensureMinRows();
+    return { added, skipped, overflow };
+  }
+
+  // ======= Bulk import / export =======
+  private async openBulkDialog() {
+    this.bulkText = '';
+    this.bulkEntries = null;
+    this.bulkError = '';
+    this.bulkOpen = true;
+    await this.updateComplete;
+    const dialog = this.renderRoot.querySelector<HTMLDialogElement>('.bulk-dialog');
+    if (dialog && !dialog.open) dialog.showModal();
+  }
+
+  private closeBulkDialog() {
+    this.renderRoot.querySelector<HTMLDialogElement>('.bulk-dialog')?.close();
+  }
+
+  // Also runs when Escape closes the dialog
+  private onBulkClosed() {
+    this.bulkOpen = false;
+    this.cancelBulkPreview();
+    this.renderRoot.querySelector<HTMLElement>('.bulk-add')?.focus();
+  }
+
+  private async onBulkFile(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    console.log('Importing CSV file:', file.name);
+    try {
+      await this.previewBulk(parseCsv(await file.text()));
+    } catch (err: any) {
+      console.error('CSV import failed:', err);
+      this.bulkError = this.t('bulkFileFailed', { file: file.name, detail: err?.message || err });
+    }
+  }
+
+  // Resolves every entry a few at a time, updating the preview as results arrive
+  private async previewBulk(entries: ImportEntry[]) {
+    this.bulkError = '';
+    if (!entries.length) {
+      this.bulkError = this.t('bulkNothing');
+      return;
+    }
+    this.cancelBulkPreview();
+    const controller = new AbortController();
+    this.bulkAbort = controller;
+    this.bulkEntries = entries.map(e => ({ ...e, status: 'pending' }));
+    this.bulkBusy = true;
+    const CHUNK = 5;
+    try {
+      for (let i = 0; i < entries.length; i += CHUNK) {
+        const resolved = await Promise.all(entries.slice(i, i + CHUNK).map(e => this.resolveImportEntry(e, controller.signal)));
+        if (controller.signal.aborted || !this.bulkEntries) return; // Back, a newer preview or the dialog closed
+        const next = [...this.bulkEntries];
+        next.splice(i, resolved.length, ...resolved);
+        this.bulkEntries = next;
+      }
+      console.log('Bulk import preview:', this.bulkEntries);
+    } catch (err) {
+      if (!isAbortError(err)) throw err;
+    } finally {
+      if (this.bulkAbort === controller) {
+        this.bulkAbort = undefined;
+        this.bulkBusy = false;
+      }
+    }
+  }
+
+  private cancelBulkPreview() {
+    this.bulkAbort?.abort();
+    this.bulkAbort = undefined;
+    this.bulkEntries = null;
+    this.bulkBusy = false;
+  }
+
+  // Addresses are looked up directly; names, and addresses not found, are searched. Both
+  // apply the directory scope, so an import never adds someone search would not suggest.
+  private async resolveImportEntry(entry: ImportEntry, signal: AbortSignal): Promise<ImportPreview> {
+    if (entry.email) {
+      try {
+        const person = await this.directory.resolveInScope(entry.email, signal);
+        if (!person) return { ...entry, status: 'not-found' };
+        cachePerson(person, entry.email);
+        return { ...entry, status: 'resolved', person };
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        console.warn('Bulk import lookup failed:', entry.email, err);
+      }
+    }
+    try {
+      const candidates = (await this.directory.search(entry.email || entry.name || '', signal))
+        .filter(p => p.principalType !== 'group');
+      if (candidates.length === 1) return { ...entry, status: 'resolved', person: candidates[0] };
+      if (candidates.length > 1) return { ...entry, status: 'ambiguous', candidates };
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      console.warn('Bulk import search failed:', entry.raw, err);
+    }
+    return { ...entry, status: 'not-found' };
+  }
+
+  private chooseCandidate(i: number, e: Event) {
+    const entries = [...(this.bulkEntries || [])];
+    const value = (e.target as HTMLSelectElement).value;
+    entries[i] = { ...entries[i], person: value === '' ? undefined : entries[i].candidates?.[Number(value)] };
+    this.bulkEntries = entries;
+  }
+
+  private applyBulk() {
+    const people = (this.bulkEntries || []).map(e => e.person).filter((p): p is Person => !!p);
+    const { added, skipped, overflow } = this.addPeopleToRows(people);
+    // Only approvers that could not be added are an error; skipped duplicates are just announced
+    this.errorMsg = overflow.length ? this.t('notAddedMax', { count: overflow.length, max: this.maxRows }) : '';
+    this.announcement = [
+      this.t('approversAdded', { count: added.length }),
+      skipped.length ? this.t('alreadyChosen', { count: skipped.length }) : '',
+    ].filter(Boolean).join(', ');
+    this.closeBulkDialog();
+  }
+
+  private exportCsv() {
+    const csv = toCsv(this.rows, this.selections, this.columns);
+    // The byte order mark makes Excel read the file as UTF-8
+    const url = URL.createObjectURL(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'approvers.csv';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    console.log('Exported approvers CSV');
+  }
+
+  private renderBulkDialog() {
+    if (!this.bulkOpen) return nothing;
+    const entries = this.bulkEntries;
+    const t = this.t;
+    const labels: Record<string, string> = {
+      pending: t('importPending'),
+      resolved: t('importResolved'),
+      ambiguous: t('importAmbiguous'),
+      'not-found': t('importNotFound'),
+    };
+    const chosen = (entries || []).filter(e => e.person).length;
+    const room = this.maxRows - this.rows.filter(r => r.approver).length;
+    return html`
+      <dialog class="bulk-dialog" part="dialog" dir=${isRtl(this.localeTag) ? 'rtl' : 'ltr'} lang=${this.localeTag} aria-labelledby="bulk-title" @close=${() => this.onBulkClosed()}>
+        <h2 id="bulk-title" class="bulk-title">${t('bulkTitle')}</h2>
+        ${!entries ? html`
+          <label class="subtle" for="bulk-text">${t('bulkHint')}</label>
+          <textarea
+            id="bulk-text"
+            class="bulk-text"
+            rows="6"
+            .value=${this.bulkText}
+            @input=${(e: Event) => this.bulkText = (e.target as HTMLTextAreaElement).value}
+          ></textarea>
+          <label class="link">
+            ${t('bulkUpload')}
+            <input class="sr-only" type="file" accept=".csv,text/csv" @change=${(e: Event) => this.onBulkFile(e)} />
+          </label>
+          ${this.bulkError ? html`<div class="error">${this.bulkError}</div>` : nothing}
+          <div class="buttons bulk-buttons">
+            <button class="apply-template" part="button secondary" @click=${() => this.previewBulk(parseBulkText(this.bulkText))} ?disabled=${!this.bulkText.trim()}>${t('preview')}</button>
+            <button class="apply-template" part="button secondary" @click=${() => this.closeBulkDialog()}>${t('cancel')}</button>
+          </div>` : html`
+          <div class="subtle" role="status">
+            ${this.bulkBusy ? t('bulkLookingUp') : t('bulkReady', { chosen, total: entries.length, room: Math.max(0, room), max: this.maxRows })}
+          </div>
+          <ul class="bulk-list">
+            ${entries.map((e, i) => html`
+              <li class="bulk-entry">
+                <span class="status ${e.status}">${labels[e.status]}</span>
+                <span class="bulk-raw">${e.raw}</span>
+                ${e.status === 'resolved' && e.person ? html`
+                  <span>→ ${e.person.displayName} <span class="subtle">${e.person.email || ''}</span></span>` : nothing}
+                ${e.status === 'ambiguous' ? html`
+                  <select class="template-select" aria-label=${t('chooseWho', { entry: e.raw })} @change=${(ev: Event) => this.chooseCandidate(i, ev)}>
+                    <option value="" ?selected=${!e.person}>${t('choose')}</option>
+                    ${(e.candidates || []).map((c, k) => html`
+                      <option value=${k} ?selected=${c === e.person}>${c.displayName}${c.email ? ` (${c.email})` : ''}${c.jobTitle ? ` – ${c.jobTitle}` : ''}</option>`)}
+                  </select>` : nothing}
+              </li>`)}
+          </ul>
+          <div class="buttons bulk-buttons">
+            <button class="apply-template" part="button secondary" @click=${() => this.cancelBulkPreview()}>${t('back')}</button>
+            <button class="add-row" part="button add-row" @click=${() => this.applyBulk()} ?disabled=${this.bulkBusy || !chosen}>${t('bulkConfirm', { count: chosen })}</button>
+            <button class="apply-template" part="button secondary" @click=${() => this.closeBulkDialog()}>${t('cancel')}</button>
+          </div>`}
+      </dialog>`;
+  }
+
+  // ======= Out of office and backups =======
+  private async checkAvailability(p: Person) {
+    const directory = this.directory;
+    if (!this.outOfOfficeCheck || !directory.getAutomaticReplies || p.principalType === 'group' || p.external) return;
+    const key = p.login.toLowerCase();
+    if (key in this.awayNotices) return;
+    try {
+      const signal = this.lookupAbort.signal;
+      const replies = await directory.getAutomaticReplies(p.email || p.login, signal);
+      const notice = replies ? awayNotice(replies, this.outOfOfficeWindowDays) : null;
+      this.awayNotices = { ...this.awayNotices, [key]: notice };
+      console.log('Automatic replies for approver:', p.login, notice);
+      if (!notice) return;
+      this.announcement = notice.until
+        ? this.t('isAwayUntil', { name: p.displayName, date: this.formatDate(notice.until) })
+        : this.t('isAway', { name: p.displayName });
+      // Their manager is offered as the backup
+      if (directory.getManager) {
+        const manager = await directory.getManager(p.id, signal).catch(err => {
+          if (isAbortError(err)) throw err;
+          console.warn('Delegate lookup failed:', err);
+          return null;
+        });
+        this.delegates = { ...this.delegates, [key]: manager?.person || null };
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.warn('Automatic replies lookup failed:', p.login, err);
+    }
+  }
+
+  private setBackup(index: number, p: Person | null) {
+    if (!this.editable) {
+      console.log('Not editable, ignoring backup for row:', index);
+      return;
+    }
+    const row = this.rows[index];
+    if (p && [p.login, p.email].some(v => v && v.toLowerCase() === row.approver.toLowerCase())) {
+      this.errorMsg = this.t('backupSame');
+      return;
+    }
+    row.backup = p || undefined;
+    if (p) cachePerson(p);
+    this.closeBackupPicker();
+    this.announcement = p ? this.t('backupSet', { name: p.displayName, order: row.order }) : this.t('backupRemoved', { order: row.order });
+    console.log('Backup for row:', index, p);
+    this.saveValue();
+    this.requestUpdate();
+  }
+
+  private async openBackupPicker(index: number) {
+    this.backupRow = index;
+    this.backupTerm = '';
+    this.backupSuggestions = [];
+    this.backupHighlighted = -1;
+    await this.updateComplete;
+    this.renderRoot.querySelector<HTMLInputElement>(`.rowwrap[data-index="${index}"] .backup-input`)?.focus();
+  }
+
+  private closeBackupPicker() {
+    if (this.backupTimer) clearTimeout(this.backupTimer);
+    this.backupAbort?.abort();
+    this.backupRow = null;
+    this.backupTerm = '';
+    this.backupSuggestions = [];
+    this.backupHighlighted = -1;
+  }
+
+  private onBackupInput(index: number, e: Event) {
+    const term = (e.target as HTMLInputElement).value;
+    this.backupTerm = term;
+    if (this.backupTimer) clearTimeout(this.backupTimer);
+    this.backupAbort?.abort();
+    if (term.length < (this.minChars || 2)) {
+      this.backupSuggestions = [];
+      return;
+    }
+    this.backupTimer = setTimeout(async () => {
+      const controller = this.backupAbort = new AbortController();
+      try {
+        const approver = this.rows[index]?.approver.toLowerCase();
+        const results = (await this.searchDirectory(term, controller.signal))
+          .filter(p => p.principalType !== 'group' && p.login.toLowerCase() !== approver);
+        if (this.backupRow !== index || this.backupTerm !== term) return;
+        this.backupSuggestions = results;
+        this.backupHighlighted = -1;
+        this.announcement = results.length ? this.t('suggestionsAvailable', { count: results.length }) : this.t('noMatches');
+      } catch (err: any) {
+        if (controller.signal.aborted || isAbortError(err)) return;
+        console.error('Backup search error for row:', index, err);
+        this.errorMsg = this.requestErrorMessage(err);
+      }
+    }, 200);
+  }
+
+  private onBackupKeydown(index: number, e: KeyboardEvent) {
+    const sugg = this.backupSuggestions;
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        if (!sugg.length) return;
+        e.preventDefault();
+        this.backupHighlighted = e.key === 'ArrowDown'
+          ? (this.backupHighlighted + 1) % sugg.length
+          : (this.backupHighlighted <= 0 ? sugg.length - 1 : this.backupHighlighted - 1);
+        break;
+      case 'Enter':
+        if (this.backupHighlighted < 0 || !sugg[this.backupHighlighted]) return;
+        e.preventDefault();
+        this.setBackup(index, sugg[this.backupHighlighted]);
+        this.focusRow(index);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        this.closeBackupPicker();
+        this.focusRow(index);
+        break;
+    }
+  }
+
+  private renderBackup(index: number, row: ApproverRow) {
+    if (!row.approver || row.principalType === 'group') return nothing;
+    const notice = this.awayNotices[row.approver.toLowerCase()];
+    const delegate = this.delegates[row.approver.toLowerCase()];
+    if (this.backupRow === index) {
+      const open = this.backupSuggestions.length > 0;
+      return html`
+        <div class="backup-picker">
+          <input
+            class="input backup-input"
+            type="text"
+            placeholder=${this.t('backupSearch')}
+            .value=${this.backupTerm}
+            @input=${(e: Event) => this.onBackupInput(index, e)}
+            @keydown=${(e: KeyboardEvent) => this.onBackupKeydown(index, e)}
+            @blur=${() => this.closeBackupPicker()}
+            autocomplete="off"
+            role="combobox"
+            aria-label=${this.t('backupFor', { order: row.order })}
+            aria-expanded=${open ? 'true' : 'false'}
+            aria-autocomplete="list"
+            aria-controls=${`backup-listbox-${index}`}
+            aria-activedescendant=${open && this.backupHighlighted >= 0 ? `backup-opt-${index}-${this.backupHighlighted}` : nothing}
+          />
+          ${open ? html`
+            <div class="dropdown" role="listbox" id=${`backup-listbox-${index}`}>
+              ${this.backupSuggestions.map((p, i) => html`
+                <div
+                  class="opt ${i === this.backupHighlighted ? 'highlighted' : ''}"
+                  role="option"
+                  id=${`backup-opt-${index}-${i}`}
+                  aria-selected=${i === this.backupHighlighted ? 'true' : 'false'}
+                  @mousedown=${(e: Event) => e.preventDefault()}
+                  @click=${() => this.setBackup(index, p)}
+                >
+                  ${this.renderAvatar(p)}
+                  <div class="opt-text">
+                    <div class="title">${this.highlight(p.displayName, this.backupTerm)}</div>
+                    <div class="subtle">${this.highlight(p.email, this.backupTerm)}</div>
+                  </div>
+                </div>`)}
+            </div>` : nothing}
+        </div>`;
+    }
+    if (row.backup) {
+      return html`
+        <div class="backup">
+          <span class="subtle">${this.t('backup')}</span>
+          <span class="pill" title=${row.backup.email || ''}>
+            ${this.renderAvatar(row.backup)}
+            ${row.backup.displayName}
+            <button @click=${() => this.setBackup(index, null)} aria-label=${this.t('removeBackup', { name: row.backup.displayName, order: row.order })}>✕</button>
+          </span>
+        </div>`;
+    }
+    return html`
+      <div class="backup">
+        ${notice && delegate ? html`
+          <span class="subtle">${this.t('suggestedBackup', { name: delegate.displayName })}</span>
+          <button class="link" @click=${() => this.setBackup(index, delegate)}>${this.t('useAsBackup')}</button>` : nothing}
+        <button class="link" @click=${() => this.openBackupPicker(index)} aria-label=${this.t('addBackupFor', { order: row.order })}>
+          ${notice ? this.t('chooseBackup') : this.t('addBackup')}
+        </button>
+      </div>`;
+  }
+
+  private renderAway(row: ApproverRow) {
+    const notice = row.approver ? this.awayNotices[row.approver.toLowerCase()] : null;
+    if (!notice) return nothing;
+    return html`
+      <span class="away" title=${plainText(notice.message)}>
+        ${notice.until ? this.t('awayUntil', { date: this.formatDate(notice.until) }) : this.t('away')}
+      </span>`;
+  }
+
+  // ======= Templates =======
+  private async loadTemplates() {
+    const templates: ApproverTemplate[] = [];
+    try {
+      templates.push(...parseTemplates(this.templatesJson, 'the designer'));
+      if (this.templatesUrl?.trim()) templates.push(...await fetchTemplates(this.templatesUrl.trim()));
+    } catch (err: any) {
+      console.error('Failed to load approver templates:', err);
+      this.errorMsg = err?.message || this.t('templatesFailed');
+    }
+    this.templates = templates;
+    console.log('Loaded approver templates:', templates);
+  }
+
+  // Fills rows with the template's logins, then resolves them through the same path as loadValue
+  private async applyTemplate(replace: boolean) {
+    if (!this.editable) {
+      console.log('Not editable, ignoring template');
+      return;
+    }
+    const template = this.templates.find(t => t.name === this.selectedTemplate);
+    if (!template) return;
+    if (replace) {
+      // Rows locked by a template (this one or an earlier one) are replaced too; only approval rules keep theirs
+      this.applyRowOrder(this.rows.map((r, i) => r.locked && r.rule ? i : -1).filter(i => i >= 0));
+    }
+    const existing = new Map(this.rows.map((r, i) => [r.approver.toLowerCase(), i] as const).filter(([login]) => login));
+    let overflow = 0;
+    for (const item of template.approvers) {
+      const known = existing.get(item.login.toLowerCase());
+      if (known !== undefined) {
+        const row = this.rows[known];
+        if (item.locked && !row.locked) {
+          row.locked = true;
+          row.template = template.name;
+        }
+        continue;
+      }
+      let index = this.rows.findIndex(r => !r.approver);
+      if (index < 0) {
+        if (this.rows.length >= this.maxRows) {
+          overflow++;
+          continue;
+        }
+        this.rows.push(this.newRow(this.stages.length + 1));
+        index = this.rows.length - 1;
+      }
+      this.rows[index].approver = item.login;
+      this.rows[index].principalType = 'user';
+      this.rows[index].locked = item.locked || undefined;
+      this.rows[index].template = item.locked ? template.name : undefined;
+      existing.set(item.login.toLowerCase(), index);
+    }
+    this.errorMsg = overflow ? this.t('templateOverflow', { count: overflow, template: template.name, max: this.maxRows }) : '';
+    this.renumberOrders();
+    this.renderTick++;
+    this.announcement = this.t('templateApplied', { template: template.name });
+    console.log(`Applied template (${replace ? 'replace' : 'merge'}):`, template, this.rows);
+    this.requestUpdate();
+    const pending = this.rows.filter((row, i) => row.approver && !this.selections[i]).map(row => row.approver);
+    if (pending.length) await this.resolveLogins(pending);
+    this.saveValue();
+    // Replace may have dropped approvers a rule still requires
+    if (replace && this.rulesWatcher) await this.applyRules();
+    this.ensureMinRows();
+  }
+
+  // ======= Approval rules =======
+  private get effectiveMinRows(): number {
+    return Math.max(this.minRows, this.ruleMinRows);
+  }
+
+  private watchRules() {
+    this.unwatchRules();
+    try {
+      this.rules = parseRules(this.approvalRulesJson);
+    } catch (err: any) {
+      console.error('Invalid approval rules:', err);
+      this.rules = [];
+      this.errorMsg = err?.message || String(err);
+    }
+    if (!this.rules.length) {
+      this.ruleMinRows = 0;
+      this.activeRules = [];
+      return;
+    }
+    this.rulesWatcher = new FormFieldWatcher(this.targetDocument, ruleFields(this.rules), values => {
+      this.fieldValues = values;
+      this.applyRules();
+    }, this.nwf);
+    this.rulesWatcher.start();
+  }
+
+  private unwatchRules() {
+    this.rulesWatcher?.stop();
+    this.rulesWatcher = undefined;
+  }
+
+  // Inserts the approvers matching rules require and removes the ones a rule added that
+  // no longer applies; rows the requester picked themselves are only unlocked. Rules
+  // reading a field that is not on the form keep their rows.
+  private async applyRules() {
+    if (!this.loaded || !this.editable || this.valueRejected) return;
+    const result = evaluateRules(this.rules, this.fieldValues, this.localeTag);
+    console.log('Approval rules evaluated:', { values: this.fieldValues, result });
+    this.ruleMinRows = result.minRows;
+    this.activeRules = result.matched;
+    const required = new Map(result.approvers.map(a => [a.login.toLowerCase(), a] as const));
+    let changed = false;
+
+    const keep = this.rows.map((_, i) => i).filter(i => {
+      const row = this.rows[i];
+      if (!row.rule || result.unknown.includes(row.rule)) return true;
+      const item = required.get(row.approver.toLowerCase());
+      if (item) {
+        // Another rule may require the same approver now
+        if (row.rule !== item.rule) changed = true;
+        row.rule = item.rule;
+        return true;
+      }
+      if (!row.ruleAdopted) return false;
+      console.log('Unlocking approver of a rule that no longer applies:', row);
+      row.locked = undefined;
+      row.rule = undefined;
+      row.ruleAdopted = undefined;
+      changed = true;
+      return true;
+    });
+    if (keep.length < this.rows.length) {
+      console.log('Removing approvers of rules that no longer apply:', this.rows.filter((_, i) => !keep.includes(i)));
+      this.applyRowOrder(keep);
+      changed = true;
+    }
+
+    const existing = new Set(this.rows.map(r => r.approver.toLowerCase()).filter(Boolean));
+    let overflow = 0;
+    const missing = result.approvers
+      .filter(a => !existing.has(a.login.toLowerCase()))
+      .sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity));
+    for (const item of missing) {
+      let index = item.position ? Math.min(item.position - 1, this.rows.length) : this.rows.findIndex(r => !r.approver);
+      if (index < 0 || index >= this.rows.length || this.rows[index].approver) {
+        if (this.rows.length >= this.maxRows) {
+          // Make room by dropping the last empty row
+          const spare = this.rows.map(r => !r.approver).lastIndexOf(true);
+          if (spare < 0) {
+            overflow++;
+            continue;
+          }
+          this.applyRowOrder(this.rows.map((_, i) => i).filter(i => i !== spare));
+          if (index > spare) index--;
+        }
+        // Inserted between rows it joins the stage of the row it goes before, so stages stay contiguous
+        const between = this.enableStages && index >= 0 && index < this.rows.length;
+        this.rows.push(this.newRow(between ? this.rows[index].stage : this.stages.length + 1));
+        const order = this.rows.map((_, i) => i);
+        if (index >= 0) order.splice(index, 0, order.pop()!);
+        this.applyRowOrder(order);
+        if (index < 0) index = this.rows.length - 1;
+      }
+      const row = this.rows[index];
+      row.approver = item.login;
+      row.principalType = 'user';
+      row.locked = true;
+      row.rule = item.rule;
+      changed = true;
+    }
+
+    // Approvers the requester already picked become mandatory too
+    for (const row of this.rows) {
+      const item = required.get(row.approver.toLowerCase());
+      if (item && !row.locked) {
+        row.locked = true;
+        row.rule = item.rule;
+        row.ruleAdopted = true;
+        changed = true;
+      }
+    }
+
+    this.errorMsg = overflow ? this.t('ruleOverflow', { count: overflow, max: this.maxRows }) : this.errorMsg;
+    if (changed) {
+      this.renumberOrders();
+      this.renderTick++;
+      this.announcement = this.t('rulesApplied', { rules: result.matched.join(', ') || '–' });
+      console.log('Applied approval rules:', this.rows);
+      this.requestUpdate();
+      const pending = this.rows.filter((row, i) => row.approver && !this.selections[i]).map(row => row.approver);
+      if (pending.length) await this.resolveLogins(pending);
+      this.saveValue();
+    }
+    this.ensureMinRows();
+  }
+
+  // ======= Management chain =======
+  private async populateFromManagers() {
+    if (!this.editable) {
+      console.log('Not editable, ignoring management chain');
+      return;
+    }
+    const directory = this.directory;
+    if (!directory.getManager) {
+      this.errorMsg = this.t('noManagerSupport');
+      return;
+    }
+    // Whole words in any script; \b only knows ASCII word characters, so "總經理" never matched
+    const stopTitles = parseList(this.managerChainStopTitles)
+      .map(t => new RegExp(`(?<![\\p{L}\\p{N}])${t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\p{L}\\p{N}])`, 'iu'));
+    this.loading = true;
+    this.errorMsg = '';
+    this.announcement = this.t('lookingUpManagers');
+    try {
+      const chain: Person[] = [];
+      let current: string | null = null;
+      for (let level = 0; level < Math.max(1, this.managerChainDepth || 1); level++) {
+        const manager = await directory.getManager(current, this.lookupAbort.signal);
+        if (!manager || chain.some(p => p.id === manager.person.id)) break;
+        chain.push(manager.person);
+        cachePerson(manager.person);
+        if (manager.jobTitle && stopTitles.some(re => re.test(manager.jobTitle!))) {
+          console.log('Management chain stopped at job title:', manager.jobTitle);
+          break;
+        }
+        current = manager.person.id;
+      }
+      console.log('Management chain:', chain);
+      if (!chain.length) {
+        this.errorMsg = this.t('noManager');
+        return;
+      }
+      const { added, skipped, overflow } = this.addPeopleToRows(chain, this.managerChainMode === 'replace');
+      if (overflow.length) {
+        this.errorMsg = this.t('managersOverflow', { count: overflow.length, max: this.maxRows });
+      }
+      this.announcement = [
+        this.t('managersAdded', { count: added.length }),
+        skipped.length ? this.t('alreadySelected', { count: skipped.length }) : '',
+      ].filter(Boolean).join(', ');
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error('Management chain lookup failed:', err);
+      this.errorMsg = this.t('managersFailed', { detail: err?.message || err });
+    } finally {
+      this.loading = false;
+      this.requestUpdate();
+    }
+  }
+
   private removeRow(index: number) {
-    if (this.displayMode) {
-      console.log('Display mode, ignoring remove row:', index);
+    if (!this.editable) {
+      console.log('Not editable, ignoring remove row:', index);
+      return;
+    }
+    if (this.rows[index]?.locked) {
+      console.log('Row is locked, ignoring remove:', index);
       return;
     }
     this.rows.splice(index, 1);
@@ -626,20 +2428,34 @@ export default class ApproversRepeater extends LitElement {
     console.log('Removed row:', index, 'New rows:', this.rows);
     this.renumberOrders();
     this.renderTick++;
+    this.announcement = this.t('rowRemoved', { order: index + 1 });
     this.requestUpdate();
     this.saveValue();
     this.ensureMinRows();
+    this.focusRow(Math.min(index, this.rows.length - 1));
   }
 
   private moveUp(index: number) {
-    if (this.displayMode) {
-      console.log('Display mode, ignoring move up for row:', index);
+    if (!this.editable) {
+      console.log('Not editable, ignoring move up for row:', index);
       return;
     }
     if (index <= 0) {
       console.log('Cannot move up row:', index);
       return;
     }
+    if (this.enableStages && this.rows[index - 1].stage !== this.rows[index].stage) {
+      // First row of a stage moves into the end of the previous stage
+      this.rows[index].stage = this.rows[index - 1].stage;
+      console.log('Moved row into previous stage:', index);
+      this.renumberOrders();
+      this.renderTick++;
+      this.announcement = this.t('movedToStage', { stage: this.rows[index].stage });
+      this.requestUpdate();
+      this.saveValue();
+      this.focusRow(index, 'move-up');
+      return;
+    }
     [this.rows[index - 1], this.rows[index]] = [this.rows[index], this.rows[index - 1]];
     [this.terms[index - 1], this.terms[index]] = [this.terms[index], this.terms[index - 1]];
     [this.selections[index - 1], this.selections[index]] = [this.selections[index], this.selections[index - 1]];
@@ -647,19 +2463,33 @@ export default class ApproversRepeater extends LitElement {
     console.log('Moved row up:', index, 'New rows:', this.rows);
     this.renumberOrders();
     this.renderTick++;
+    this.announcement = this.t('movedToPosition', { position: index });
     this.requestUpdate();
     this.saveValue();
+    this.focusRow(index - 1, 'move-up');
   }
 
   private moveDown(index: number) {
-    if (this.displayMode) {
-      console.log('Display mode, ignoring move down for row:', index);
+    if (!this.editable) {
+      console.log('Not editable, ignoring move down for row:', index);
       return;
     }
     if (index >= this.rows.length - 1) {
       console.log('Cannot move down row:', index);
       return;
     }
+    if (this.enableStages && this.rows[index + 1].stage !== this.rows[index].stage) {
+      // Last row of a stage moves into the start of the next stage
+      this.rows[index].stage = this.rows[index + 1].stage;
+      console.log('Moved row into next stage:', index);
+      this.renumberOrders();
+      this.renderTick++;
+      this.announcement = this.t('movedToStage', { stage: this.rows[index].stage });
+      this.requestUpdate();
+      this.saveValue();
+      this.focusRow(index, 'move-down');
+      return;
+    }
     [this.rows[index + 1], this.rows[index]] = [this.rows[index], this.rows[index + 1]];
     [this.terms[index + 1], this.terms[index]] = [this.terms[index], this.terms[index + 1]];
     [this.selections[index + 1], this.selections[index]] = [this.selections[index], this.selections[index + 1]];
@@ -667,14 +2497,323 @@ export default class ApproversRepeater extends LitElement {
     console.log('Moved row down:', index, 'New rows:', this.rows);
     this.renumberOrders();
     this.renderTick++;
+    this.announcement = this.t('movedToPosition', { position: index + 2 });
+    this.requestUpdate();
+    this.saveValue();
+    this.focusRow(index + 1, 'move-down');
+  }
+
+  // ======= Drag-and-drop reordering =======
+  // Moves one row to a drop target in a single step, so a completed drag saves once
+  private moveRow(from: number, target: DropTarget) {
+    if (!this.editable) {
+      console.log('Not editable, ignoring move row:', from);
+      return;
+    }
+    const stage = this.rows[target.index].stage;
+    let to = target.after ? target.index + 1 : target.index;
+    if (to > from) to--;
+    if (to === from && this.rows[from].stage === stage) {
+      console.log('Drop at original position, nothing to move:', from);
+      this.announcement = this.t('droppedAtOrigin');
+      this.focusRow(from, 'drag-handle');
+      return;
+    }
+    const order = this.rows.map((_, i) => i).filter(i => i !== from);
+    order.splice(to, 0, from);
+    this.rows[from].stage = stage;
+    this.applyRowOrder(order);
+    console.log('Moved row:', { from, to, stage }, 'New rows:', this.rows);
+    this.renumberOrders();
+    this.renderTick++;
+    this.announcement = this.enableStages
+      ? this.t('movedToPositionInStage', { position: to + 1, stage: this.rows[to].stage })
+      : this.t('movedToPosition', { position: to + 1 });
+    this.requestUpdate();
+    this.saveValue();
+    this.focusRow(to, 'drag-handle');
+  }
+
+  private endDrag() {
+    this.dragFrom = null;
+    this.dropTarget = null;
+    this.dragMode = null;
+  }
+
+  private onHandlePointerDown(index: number, e: PointerEvent) {
+    if (!this.editable || e.button !== 0 || this.dragMode) return;
+    e.preventDefault();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    this.dragMode = 'pointer';
+    this.dragFrom = index;
+    this.dropTarget = { index, after: false };
+    console.log('Pointer drag started:', index);
+  }
+
+  private onHandlePointerMove(e: PointerEvent) {
+    if (this.dragMode !== 'pointer') return;
+    const rowEls = Array.from(this.renderRoot.querySelectorAll<HTMLElement>('.rowwrap'));
+    let target: DropTarget = { index: this.rows.length - 1, after: true };
+    for (const el of rowEls) {
+      const rect = el.getBoundingClientRect();
+      if (e.clientY < rect.bottom) {
+        target = { index: Number(el.dataset.index), after: e.clientY > rect.top + rect.height / 2 };
+        break;
+      }
+    }
+    if (target.index !== this.dropTarget?.index || target.after !== this.dropTarget?.after) {
+      this.dropTarget = target;
+    }
+  }
+
+  private onHandlePointerUp() {
+    if (this.dragMode !== 'pointer') return;
+    const from = this.dragFrom;
+    const target = this.dropTarget;
+    this.endDrag();
+    if (from !== null && target) this.moveRow(from, target);
+  }
+
+  private onHandlePointerCancel() {
+    if (this.dragMode !== 'pointer') return;
+    console.log('Pointer drag cancelled');
+    this.endDrag();
+  }
+
+  // Drop slots in keyboard order: before every row, plus after the last row of each stage
+  private dropSlots(): DropTarget[] {
+    const slots: DropTarget[] = [];
+    this.rows.forEach((row, i) => {
+      slots.push({ index: i, after: false });
+      const next = this.rows[i + 1];
+      if (!next || (this.enableStages && next.stage !== row.stage)) slots.push({ index: i, after: true });
+    });
+    return slots;
+  }
+
+  private describeDropTarget(target: DropTarget): string {
+    const row = this.rows[target.index];
+    const params = { order: row.order, stage: row.stage };
+    if (this.enableStages) return this.t(target.after ? 'dropAfterInStage' : 'dropBeforeInStage', params);
+    return this.t(target.after ? 'dropAfter' : 'dropBefore', params);
+  }
+
+  // Keyboard move mode: Space/Enter picks up, arrows choose the drop slot, Space/Enter drops, Escape cancels
+  private onHandleKeydown(index: number, e: KeyboardEvent) {
+    if (!this.editable) return;
+    if (this.dragMode !== 'keyboard') {
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault();
+        this.dragMode = 'keyboard';
+        this.dragFrom = index;
+        this.dropTarget = { index, after: false };
+        this.announcement = this.t('pickedUp', { order: this.rows[index].order });
+      }
+      return;
+    }
+    switch (e.key) {
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        e.preventDefault();
+        const slots = this.dropSlots();
+        const current = slots.findIndex(s => s.index === this.dropTarget!.index && s.after === this.dropTarget!.after);
+        const next = Math.max(0, Math.min(slots.length - 1, current + (e.key === 'ArrowDown' ? 1 : -1)));
+        this.dropTarget = slots[next];
+        this.announcement = this.describeDropTarget(this.dropTarget);
+        break;
+      }
+      case ' ':
+      case 'Enter': {
+        e.preventDefault();
+        const from = this.dragFrom!;
+        const target = this.dropTarget!;
+        this.endDrag();
+        this.moveRow(from, target);
+        break;
+      }
+      case 'Escape':
+        e.preventDefault();
+        this.endDrag();
+        this.announcement = this.t('moveCancelled');
+        break;
+    }
+  }
+
+  private onHandleBlur() {
+    if (this.dragMode !== 'keyboard') return;
+    this.endDrag();
+    this.announcement = this.t('moveCancelled');
+  }
+
+  // ======= Stage ops =======
+  private stageIndices(stage: number): number[] {
+    return this.rows.map((r, i) => r.stage === stage ? i : -1).filter(i => i >= 0);
+  }
+
+  private addRowToStage(stage: number) {
+    if (!this.editable) {
+      console.log('Not editable, ignoring add row to stage:', stage);
+      return;
+    }
+    if (this.rows.length >= this.maxRows) {
+      console.log('Cannot add row to stage, maxRows reached:', this.maxRows);
+      return;
+    }
+    const indices = this.stageIndices(stage);
+    const insertAt = indices.length ? indices[indices.length - 1] + 1 : this.rows.length;
+    this.rows.push(this.newRow(stage));
+    const order = this.rows.map((_, i) => i);
+    order.splice(insertAt, 0, order.pop()!);
+    this.applyRowOrder(order);
+    console.log('Added row to stage:', stage, 'New rows:', this.rows);
+    this.renumberOrders();
+    this.renderTick++;
+    this.requestUpdate();
+    this.saveValue();
+  }
+
+  private setStageMode(stage: number, mode: StageMode) {
+    if (!this.editable) {
+      console.log('Not editable, ignoring stage mode change:', stage);
+      return;
+    }
+    this.stages = this.stages.map((s, i) => i === stage - 1 ? { ...s, mode } : s);
+    console.log('Set stage mode:', stage, mode);
+    this.saveValue();
+  }
+
+  private moveStage(stage: number, direction: -1 | 1) {
+    if (!this.editable) {
+      console.log('Not editable, ignoring move stage:', stage);
+      return;
+    }
+    const other = stage + direction;
+    if (other < 1 || other > this.stages.length) {
+      console.log('Cannot move stage:', stage, direction);
+      return;
+    }
+    const sequence = this.stages.map((_, i) => i + 1);
+    [sequence[stage - 1], sequence[other - 1]] = [sequence[other - 1], sequence[stage - 1]];
+    const order = sequence.flatMap(st => this.stageIndices(st));
+    this.stages = sequence.map(st => this.stages[st - 1]);
+    this.rows.forEach(r => r.stage = sequence.indexOf(r.stage) + 1);
+    this.applyRowOrder(order);
+    console.log('Moved stage:', stage, direction, 'New rows:', this.rows);
+    this.renumberOrders();
+    this.renderTick++;
     this.requestUpdate();
     this.saveValue();
   }
 
+  private removeStage(stage: number) {
+    if (!this.editable) {
+      console.log('Not editable, ignoring remove stage:', stage);
+      return;
+    }
+    if (this.rows.some(r => r.stage === stage && r.locked)) {
+      console.log('Stage has locked rows, ignoring remove:', stage);
+      return;
+    }
+    this.applyRowOrder(this.rows.map((r, i) => r.stage === stage ? -1 : i).filter(i => i >= 0));
+    this.stages = this.stages.map((s, i) => i === stage - 1 ? null : s).filter(Boolean) as Stage[];
+    this.rows.forEach(r => { if (r.stage > stage) r.stage--; });
+    console.log('Removed stage:', stage, 'New rows:', this.rows);
+    this.renumberOrders();
+    this.renderTick++;
+    this.requestUpdate();
+    this.saveValue();
+    this.ensureMinRows();
+  }
+
+  // ======= People display =======
+  // Marks the part of text that matched what was typed
+  private highlight(text: string | undefined, term: string | undefined) {
+    const range = text && term ? findMatch(text, term) : null;
+    if (!text || !range) return text || '';
+    const [start, end] = range;
+    return html`${text.slice(0, start)}<mark>${text.slice(start, end)}</mark>${text.slice(end)}`;
+  }
+
+  private personDetails(p: Person): string {
+    return [p.jobTitle, p.department, p.officeLocation].filter(Boolean).join(' · ');
+  }
+
+  // Photos of everyone shown load after each update. With Graph they wait for a signed-in
+  // account so display mode never asks to sign in just for pictures.
+  private loadPhotos() {
+    const directory = this.directory;
+    if (!directory.getPhoto) return;
+    if (this.directoryProvider === 'graph' && !this.account && !this.msal?.getAllAccounts().length) return;
+    const shown = [
+      ...Object.values(this.selections),
+      ...Object.values(this.suggestions).flat(),
+      ...this.backupSuggestions,
+      ...this.rows.map(r => r.backup),
+    ];
+    for (const p of shown) {
+      if (!p || p.principalType === 'group' || p.external) continue;
+      const key = p.id.toLowerCase();
+      if (this.photoIds.has(key)) continue;
+      this.photoIds.add(key);
+      loadPhoto(p.id, id => directory.getPhoto!(id)).then(url => {
+        if (url && this.photoIds.has(key)) this.photoUrls = { ...this.photoUrls, [key]: url };
+      });
+    }
+  }
+
+  private photoFor(p: Person): string | null {
+    return this.photoUrls[p.id.toLowerCase()] ?? null;
+  }
+
+  private renderAvatar(p: Person) {
+    if (p.principalType === 'group') return html`<span class="avatar group" aria-hidden="true">👥</span>`;
+    const url = this.photoFor(p);
+    return url
+      ? html`<img class="avatar" src=${url} alt="" loading="lazy" />`
+      : html`<span class="avatar" aria-hidden="true">${initials(p.displayName)}</span>`;
+  }
+
+  private renderSignIn() {
+    if (!this.signInRequired) return nothing;
+    return html`
+      <button class="sign-in" part="button sign-in" @click=${() => this.signIn()} ?disabled=${this.signingIn}>
+        ${this.signingIn ? this.t('signingIn') : this.t('signIn')}
+      </button>`;
+  }
+
+  private renderOutcome(outcome: ApprovalOutcome | undefined, current: boolean) {
+    const state = outcome?.state || 'pending';
+    const when = outcome?.timestamp && !isNaN(Date.parse(outcome.timestamp)) ? new Date(outcome.timestamp).toLocaleString(this.localeTag) : outcome?.timestamp;
+    return html`
+      <span class="status ${state}">${current ? this.t('awaitingDecision') : outcome?.status || this.t('pending')}</span>
+      ${when ? html`<span class="subtle">${when}</span>` : nothing}
+      ${outcome?.comment ? html`<div class="comment">“${outcome.comment}”</div>` : nothing}
+    `;
+  }
+
+  private renderStageHeader(stage: number) {
+    const mode = this.stages[stage - 1]?.mode || 'all';
+    return html`
+      <div class="stage-header" part="stage-header" data-stage=${stage}>
+        <span class="stage-title">${this.t('stage', { stage })}</span>
+        <select class="stage-mode" .value=${mode} @change=${(e: Event) => this.setStageMode(stage, (e.target as HTMLSelectElement).value as StageMode)}>
+          <option value="all" ?selected=${mode === 'all'}>${this.t('modeAll')}</option>
+          <option value="any" ?selected=${mode === 'any'}>${this.t('modeAny')}</option>
+        </select>
+        <div class="buttons">
+          <button class="move-up" part="button move-up" @click=${() => this.moveStage(stage, -1)} ?disabled=${stage === 1} aria-label=${this.t('moveStageUp')}>${this.buttonContent('↑', this.t('upLabel'), true)}</button>
+          <button class="move-down" part="button move-down" @click=${() => this.moveStage(stage, 1)} ?disabled=${stage === this.stages.length} aria-label=${this.t('moveStageDown')}>${this.buttonContent('↓', this.t('downLabel'), true)}</button>
+          <button class="add-to-stage" part="button add-to-stage" @click=${() => this.addRowToStage(stage)} ?disabled=${this.rows.length >= this.maxRows}>${this.buttonContent('+', this.t('addToStage'))}</button>
+          <button class="remove ${this.labeledButtons ? 'labeled' : ''}" part="button remove" @click=${() => this.removeStage(stage)} ?disabled=${this.rows.some(r => r.stage === stage && r.locked)} aria-label=${this.t('removeStage')}>${this.buttonContent('🗑️', this.t('removeLabel'), true)}</button>
+        </div>
+      </div>
+    `;
+  }
+
   // ======= Render =======
   render() {
     console.log('Rendering component:', {
-      isDisplayMode: this.displayMode,
+      mode: this.mode,
       rows: this.rows,
       rowCount: this.rows.length,
       selections: this.selections,
@@ -698,19 +2837,53 @@ export default class ApproversRepeater extends LitElement {
       }
     });
 
+    const columns = this.columns;
+    const t = this.t;
+    const dir = isRtl(this.localeTag) ? 'rtl' : 'ltr';
     if (this.displayMode) {
+      const progress = this.outcomes.length ? computeProgress(this.rows, this.stages, this.selections, this.outcomes) : null;
       const displayHtml = html`
-        <div class="repeater-container">
+        <div class="repeater-container" part="container" dir=${dir} lang=${this.localeTag}>
+          ${progress ? html`
+            <div class="progress ${progress.rejected ? 'rejected' : progress.complete ? 'complete' : ''}" role="status">
+              ${progress.rejected ? t('progressRejected') : progress.complete ? t('progressApproved') : t('progressInProgress')} ·
+              ${t('progressCount', { approved: progress.approved, total: progress.total })}
+            </div>` : nothing}
           ${this.rows.length > 0 ? this.rows.map((row, index) => {
             const sel = this.selections[index];
-            const displayName = sel?.displayName || row.approver || 'No approver selected';
+            const isResolving = !sel && !!row.approver && this.resolving.has(row.approver.toLowerCase());
+            const displayName = isResolving ? t('resolving') : sel?.displayName || row.approver || t('noApproverSelected');
+            const stageStart = this.enableStages && (index === 0 || this.rows[index - 1].stage !== row.stage);
             return html`
-              <div class="display-row" data-index=${index}>
+              ${stageStart ? html`
+                <div class="stage-header" part="stage-header" data-stage=${row.stage}>
+                  <span class="stage-title">${t('stage', { stage: row.stage })}</span>
+                  <span class="subtle">${this.stages[row.stage - 1]?.mode === 'any' ? t('modeAny') : t('modeAll')}</span>
+                </div>` : nothing}
+              <div
+                part="row"
+                class="display-row ${this.enableStages ? 'in-stage' : ''} ${progress?.current.includes(index) ? 'current' : ''}"
+                data-index=${index}
+                aria-current=${progress?.current.includes(index) ? 'step' : nothing}
+              >
                 <div class="order">${row.order}</div>
-                <div class="display-name" title=${sel?.email || row.approver || ''}>${displayName}</div>
+                ${sel ? this.renderAvatar(sel) : nothing}
+                <div class="display-name ${isResolving ? 'resolving' : ''}" title=${sel?.email || row.approver || ''}>
+                  ${displayName}
+                  ${sel && this.personDetails(sel) ? html`<div class="subtle">${this.personDetails(sel)}</div>` : nothing}
+                  ${row.backup ? html`<div class="subtle">${t('backup')} ${row.backup.displayName}</div>` : nothing}
+                </div>
+                ${row.principalType === 'group' ? html`<span class="tag group">${t('group')}</span>` : nothing}
+                ${row.external ? html`<span class="tag external">${t('external')}</span>` : nothing}
+                ${columns.filter(c => row.fields?.[c.key]).map(c => html`
+                  <span class="field"><span class="subtle">${c.label}:</span> ${formatColumnValue(c, row.fields![c.key], this.localeTag)}</span>`)}
+                ${progress ? this.renderOutcome(progress.outcomes[index], progress.current.includes(index)) : nothing}
               </div>
             `;
-          }) : html`<div class="error">No approvers to display</div>`}
+          }) : html`<div class="error">${t('noApprovers')}</div>`}
+          ${this.rows.some(r => r.approver) ? html`
+            <button class="export-csv" part="button export-csv" @click=${() => this.exportCsv()}>${this.buttonContent('⬇', t('exportCsv'))}</button>` : nothing}
+          ${this.renderSignIn()}
           ${this.errorMsg ? html`<div class="error">${this.errorMsg}</div>` : nothing}
         </div>
       `;
@@ -723,65 +2896,160 @@ export default class ApproversRepeater extends LitElement {
       this.ensureMinRows();
     }
 
-    const helper = this.loading ? 'Searching…' : (() => {
+    const helper = this.loading ? t('searching') : (() => {
       const idx = this.activeRowIndex ?? -1;
       const term = this.terms[idx] || '';
       if (!term) return '';
-      if (term.length < (this.minChars || 2)) return `Type at least ${this.minChars || 2} characters to search`;
+      if (term.length < (this.minChars || 2)) return t('minChars', { count: this.minChars || 2 });
       const sugg = this.suggestions[idx] || [];
-      return sugg.length ? '' : 'No matches';
+      if (sugg.length) return '';
+      const problem = this.allowExternal && term.includes('@') ? externalProblem(term, this.externalDomainList) : null;
+      if (problem === 'format') return t('externalInvalid');
+      if (problem === 'domain') return t('externalDomain', { domains: this.externalDomainList.join(', ') });
+      return t('noMatches');
     })();
 
+    const validation = this.validation;
+    const rowError = (index: number) => validation.rowErrors[index]
+      || (this.validationVisible && validation.emptyRows.includes(index) ? t('emptyRow') : '');
+
     const editHtml = html`
-      <div class="repeater-container">
+      <div class="repeater-container" part="container" dir=${dir} lang=${this.localeTag} @focusout=${(e: FocusEvent) => this.onFocusOut(e)}>
+        <fieldset class="editor" ?disabled=${this.mode === 'readonly'}>
+        ${this.activeRules.length ? html`<div class="helper rules-notice">${t('rulesNotice', { rules: this.activeRules.join(', ') })}</div>` : nothing}
         ${this.rows.length > 0 ? this.rows.map((row, index) => {
           const sel = this.selections[index];
+          const error = rowError(index);
           const term = this.terms[index] ?? (sel?.displayName || '');
           const sugg = this.suggestions[index] || [];
           const showDropdown = this.activeRowIndex === index && sugg.length > 0;
+          const isResolving = !sel && !!row.approver && this.resolving.has(row.approver.toLowerCase());
+          const stageStart = this.enableStages && (index === 0 || this.rows[index - 1].stage !== row.stage);
+          const drop = this.dragFrom !== null ? this.dropTarget : null;
+          const dropClass = drop?.index === index ? (drop.after ? 'drop-after' : 'drop-before') : '';
           return html`
-            <div class="rowwrap" data-index=${index}>
+            ${stageStart ? this.renderStageHeader(row.stage) : nothing}
+            <div
+              part="row"
+              class="rowwrap ${this.enableStages ? 'in-stage' : ''} ${this.dragFrom === index ? 'dragging' : ''} ${dropClass}"
+              data-index=${index}
+            >
+              <button
+                class="drag-handle"
+                aria-label=${t('reorderApprover', { order: row.order })}
+                aria-roledescription=${t('dragHandle')}
+                aria-pressed=${this.dragMode === 'keyboard' && this.dragFrom === index ? 'true' : 'false'}
+                @pointerdown=${(e: PointerEvent) => this.onHandlePointerDown(index, e)}
+                @pointermove=${(e: PointerEvent) => this.onHandlePointerMove(e)}
+                @pointerup=${() => this.onHandlePointerUp()}
+                @pointercancel=${() => this.onHandlePointerCancel()}
+                @keydown=${(e: KeyboardEvent) => this.onHandleKeydown(index, e)}
+                @blur=${() => this.onHandleBlur()}
+              >⠿</button>
               <div class="order">${row.order}</div>
               <div class="picker">
                 ${sel ? html`
-                  <div class="pill" title=${sel.email || ''}>
+                  <div class="pill ${sel.principalType === 'group' ? 'group' : ''}" part="pill" title=${[sel.email, this.personDetails(sel)].filter(Boolean).join('\n')}>
+                    ${this.renderAvatar(sel)}
+                    ${sel.principalType === 'group' ? html`<span class="sr-only">${t('groupPrefix')}</span>` : nothing}
                     ${sel.displayName}
-                    <button @click=${() => this.clearRow(index)} aria-label="Clear">✕</button>
-                  </div>` : nothing}
+                    ${row.external ? html`<span class="tag external">${t('external')}</span>` : nothing}
+                    ${this.renderAway(row)}
+                    ${row.locked
+                      ? html`<span class="lock" title=${row.rule ? t('requiredByRule', { rule: row.rule }) : row.template ? t('requiredByTemplate', { template: row.template }) : t('lockedTitle')} aria-label=${t('locked')}>🔒</span>`
+                      : html`<button @click=${() => this.clearRow(index)} aria-label=${t('clearApprover', { name: sel.displayName, order: row.order })}>✕</button>`}
+                  </div>` : isResolving ? html`
+                  <div class="pill resolving" part="pill" title=${row.approver}>${t('resolving')}</div>` : nothing}
                 <input
                   class="input"
+                  part="input"
                   type="text"
-                  placeholder=${this.getAttribute('placeholder') || 'Search people…'}
+                  placeholder=${this.getAttribute('placeholder') || t('searchPlaceholder')}
                   @input=${(e: Event) => this.onRowInput(index, e)}
+                  @keydown=${(e: KeyboardEvent) => this.onRowKeydown(index, e)}
+                  @blur=${() => this.closeSuggestions(index)}
                   .value=${term}
+                  ?readonly=${!!row.locked}
                   autocomplete="off"
                   role="combobox"
-                  aria-expanded=${showDropdown}
+                  aria-label=${t('approverLabel', { order: row.order })}
+                  aria-expanded=${showDropdown ? 'true' : 'false'}
                   aria-autocomplete="list"
                   aria-haspopup="listbox"
+                  aria-controls=${`listbox-${index}`}
+                  aria-activedescendant=${showDropdown && this.highlightedOption >= 0 ? `opt-${index}-${this.highlightedOption}` : nothing}
+                  aria-invalid=${error ? 'true' : 'false'}
+                  aria-describedby=${error ? `row-error-${index}` : nothing}
                 />
+                ${error ? html`<div class="row-error" id=${`row-error-${index}`}>${error}</div>` : nothing}
+                ${this.renderBackup(index, row)}
                 ${showDropdown ? html`
-                  <div class="dropdown" role="listbox">
-                    ${sugg.map(p => html`
-                      <div class="opt" role="option" @click=${() => this.onPick(index, p)}>
-                        <div class="title">${p.displayName}</div>
-                        <div class="subtle">${p.email || ''}</div>
+                  <div class="dropdown" part="dropdown" role="listbox" id=${`listbox-${index}`} aria-label=${t('suggestionsFor', { order: row.order })}>
+                    ${sugg.map((p, i) => html`
+                      <div
+                        part="option"
+                        class="opt ${i === this.highlightedOption ? 'highlighted' : ''}"
+                        role="option"
+                        id=${`opt-${index}-${i}`}
+                        aria-selected=${i === this.highlightedOption ? 'true' : 'false'}
+                        @mousedown=${(e: Event) => e.preventDefault()}
+                        @click=${() => this.onPick(index, p)}
+                      >
+                        ${this.renderAvatar(p)}
+                        <div class="opt-text">
+                          <div class="title">
+                            ${p.external ? t('addExternal', { email: p.email }) : this.highlight(p.displayName, term)}
+                            ${p.principalType === 'group' ? html`<span class="tag group">${t('group')}</span>` : nothing}
+                            ${p.external ? html`<span class="tag external">${t('external')}</span>` : nothing}
+                          </div>
+                          ${p.external ? nothing : html`<div class="subtle">${this.highlight(p.email, term)}</div>`}
+                          ${this.personDetails(p) ? html`<div class="subtle">${this.highlight(this.personDetails(p), term)}</div>` : nothing}
+                        </div>
                       </div>
                     `)}
                   </div>
                 ` : nothing}
               </div>
+              ${columns.length ? html`
+                <div class="row-fields">${columns.map(c => this.renderField(index, row, c))}</div>` : nothing}
               <div class="buttons">
-                <button class="move-up" @click=${() => this.moveUp(index)} ?disabled=${index === 0}>↑</button>
-                <button class="move-down" @click=${() => this.moveDown(index)} ?disabled=${index === this.rows.length - 1}>↓</button>
-                <button class="remove" @click=${() => this.removeRow(index)} aria-label="Remove row">🗑️</button>
+                <button class="move-up" part="button move-up" @click=${() => this.moveUp(index)} ?disabled=${index === 0} aria-label=${t('moveUp', { order: row.order })}>${this.buttonContent('↑', t('upLabel'), true)}</button>
+                <button class="move-down" part="button move-down" @click=${() => this.moveDown(index)} ?disabled=${index === this.rows.length - 1} aria-label=${t('moveDown', { order: row.order })}>${this.buttonContent('↓', t('downLabel'), true)}</button>
+                <button class="remove ${this.labeledButtons ? 'labeled' : ''}" part="button remove" @click=${() => this.removeRow(index)} ?disabled=${!!row.locked} aria-label=${t('removeApprover', { order: row.order })}>${this.buttonContent('🗑️', t('removeLabel'), true)}</button>
               </div>
             </div>
           `;
-        }) : html`<div class="helper">No rows, click below to add</div>`}
-        <button class="add-row" @click=${this.addRow} ?disabled=${this.rows.length >= this.maxRows}>Add New Row</button>
-        ${helper ? html`<div class="helper">${helper}</div>` : nothing}
-        ${this.rows.length === 0 ? html`<div class="debug">Debug: No rows in edit mode. minRows=${this.minRows}, forceEditable=${this.forceEditable}</div>` : nothing}
+        }) : html`<div class="helper">${t('noRows')}</div>`}
+        ${this.templates.length ? html`
+          <div class="templates">
+            <label class="subtle" for="template-select">${t('template')}</label>
+            <select
+              id="template-select"
+              class="template-select"
+              .value=${this.selectedTemplate}
+              @change=${(e: Event) => this.selectedTemplate = (e.target as HTMLSelectElement).value}
+            >
+              <option value="" ?selected=${!this.selectedTemplate}>${t('chooseTemplate')}</option>
+              ${this.templates.map(t => html`<option value=${t.name} ?selected=${t.name === this.selectedTemplate}>${t.name}</option>`)}
+            </select>
+            <button class="apply-template" part="button secondary" @click=${() => this.applyTemplate(true)} ?disabled=${!this.selectedTemplate}>${t('replaceRows')}</button>
+            <button class="apply-template" part="button secondary" @click=${() => this.applyTemplate(false)} ?disabled=${!this.selectedTemplate}>${t('mergeRows')}</button>
+          </div>` : nothing}
+        <div class="actions" part="actions">
+          <button class="add-row" part="button add-row" @click=${this.addRow} ?disabled=${this.rows.length >= this.maxRows}>${this.buttonContent('+', this.enableStages ? t('addStage') : t('addRow'))}</button>
+          ${this.showManagerChain ? html`
+            <button class="populate-managers" part="button populate-managers" @click=${() => this.populateFromManagers()} ?disabled=${this.loading}>${this.buttonContent('👥', t('addManagers'))}</button>` : nothing}
+          <button class="bulk-add" part="button bulk-add" @click=${() => this.openBulkDialog()} ?disabled=${this.rows.filter(r => r.approver).length >= this.maxRows}>${this.buttonContent('📋', t('bulkAdd'))}</button>
+          <button class="export-csv" part="button export-csv" @click=${() => this.exportCsv()} ?disabled=${!this.rows.some(r => r.approver)}>${this.buttonContent('⬇', t('exportCsv'))}</button>
+        </div>
+        </fieldset>
+        ${this.renderBulkDialog()}
+        ${helper ? html`<div class="helper" aria-hidden="true">${helper}</div>` : nothing}
+        <div class="sr-only" role="status" aria-live="polite" aria-atomic="true">${this.announcement}</div>
+        ${this.rows.length === 0 && this.editable ? html`<div class="debug">Debug: No rows in edit mode. minRows=${this.minRows}, forceEditable=${this.forceEditable}</div>` : nothing}
+        ${this.validationVisible ? validation.messages.map(m => html`<div class="error" role="alert">${m}</div>`) : nothing}
+        ${this.renderSignIn()}
+        ${this.columnsError ? html`<div class="error">${this.columnsError}</div>` : nothing}
         ${this.errorMsg ? html`<div class="error">${this.errorMsg}</div>` : nothing}
       </div>
     `;
@@ -0,0 +1,134 @@
+// Approval matrix: approvers and a minimum row count that other form fields make mandatory.
+// Defined as JSON in the designer; every condition of a rule must match:
+// [{ "name": "CFO over 50k", "when": { "field": "Amount", "operator": "gt", "value": 50000 },
+//    "approvers": [{ "login": "cfo@contoso.com", "position": 1 }], "minRows": 3 }]
+
+export type RuleOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in' | 'empty' | 'notEmpty';
+
+export type RuleCondition = { field: string; operator: RuleOperator; value?: unknown };
+
+export type RuleApprover = { login: string; position?: number }; // 1-based; absent adds at the end
+
+export type ApprovalRule = { name: string; when: RuleCondition[]; approvers: RuleApprover[]; minRows: number };
+
+export type RequiredApprover = RuleApprover & { rule: string };
+
+export type RulesResult = {
+  approvers: RequiredApprover[]; // first rule wins when two require the same login
+  minRows: number;
+  matched: string[];
+  unknown: string[]; // rules reading a field that is not on the form (yet)
+};
+
+const OPERATORS: RuleOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'in', 'empty', 'notEmpty'];
+
+function readCondition(c: any, rule: string): RuleCondition {
+  const operator = c?.operator ?? 'eq';
+  if (!c || typeof c.field !== 'string' || !c.field.trim()) throw new Error(`Approval rule "${rule}" has a condition without a field.`);
+  if (!OPERATORS.includes(operator)) throw new Error(`Approval rule "${rule}" uses an unknown operator "${operator}".`);
+  return { field: c.field.trim(), operator, value: c.value };
+}
+
+export function parseRules(json: string): ApprovalRule[] {
+  if (!json?.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Approval rules are not valid JSON.');
+  }
+  if (!Array.isArray(parsed)) throw new Error('Approval rules must be a JSON array.');
+  return parsed.filter((r: any) => r && typeof r === 'object').map((r: any, i: number) => {
+    const name = typeof r.name === 'string' && r.name.trim() ? r.name.trim() : `Rule ${i + 1}`;
+    const when = (Array.isArray(r.when) ? r.when : r.when ? [r.when] : []).map((c: any) => readCondition(c, name));
+    const approvers = (Array.isArray(r.approvers) ? r.approvers : [])
+      .map((a: any) => typeof a === 'string'
+        ? { login: a.trim() }
+        : { login: String(a?.login || '').trim(), position: Number(a?.position) >= 1 ? Math.floor(Number(a.position)) : undefined })
+      .filter((a: RuleApprover) => a.login);
+    return { name, when, approvers, minRows: Math.max(0, Math.floor(Number(r.minRows) || 0)) };
+  });
+}
+
+// Every field the rules read, for the component to watch
+export function ruleFields(rules: ApprovalRule[]): string[] {
+  return [...new Set(rules.flatMap(r => r.when.map(c => c.field)))];
+}
+
+function decimalSeparator(locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === 'decimal')?.value || '.';
+  } catch {
+    return '.';
+  }
+}
+
+// Accepts currency symbols and thousands separators in either convention: "$50,000.00" and
+// "50.000,00 €" are both 50000. The locale only decides a lone separator followed by three
+// digits, e.g. "50.000" is 50000 in German and 50 in English.
+function toNumber(value: unknown, decimal: string): number {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(text)) return NaN;
+  const dots = text.split('.').length - 1;
+  const commas = text.split(',').length - 1;
+  let separator = decimal;
+  if (dots && commas) separator = text.lastIndexOf('.') > text.lastIndexOf(',') ? '.' : ',';
+  else if (dots > 1 || commas > 1) separator = dots > 1 ? ',' : '.';
+  else if (dots || commas) {
+    const single = dots ? '.' : ',';
+    separator = /^\d{3}$/.test(text.slice(text.indexOf(single) + 1)) ? decimal : single;
+  }
+  const grouping = separator === '.' ? ',' : '.';
+  return Number(text.split(grouping).join('').replace(separator, '.'));
+}
+
+function sameValue(actual: string, expected: unknown, decimal: string): boolean {
+  const a = toNumber(actual, decimal);
+  const b = toNumber(expected, decimal);
+  if (!isNaN(a) && !isNaN(b)) return a === b;
+  return actual.trim().toLowerCase() === String(expected ?? '').trim().toLowerCase();
+}
+
+function matches(c: RuleCondition, actual: string, decimal: string): boolean {
+  switch (c.operator) {
+    case 'eq': return sameValue(actual, c.value, decimal);
+    case 'ne': return !sameValue(actual, c.value, decimal);
+    case 'in': return (Array.isArray(c.value) ? c.value : [c.value]).some(v => sameValue(actual, v, decimal));
+    case 'contains': return actual.toLowerCase().includes(String(c.value ?? '').toLowerCase());
+    case 'empty': return !actual.trim();
+    case 'notEmpty': return !!actual.trim();
+  }
+  const a = toNumber(actual, decimal);
+  const b = toNumber(c.value, decimal);
+  if (isNaN(a) || isNaN(b)) return false;
+  switch (c.operator) {
+    case 'gt': return a > b;
+    case 'gte': return a >= b;
+    case 'lt': return a < b;
+    case 'lte': return a <= b;
+  }
+}
+
+// values holds only the fields found on the form; locale is the form's, for reading numbers
+export function evaluateRules(rules: ApprovalRule[], values: Record<string, string>, locale?: string): RulesResult {
+  const result: RulesResult = { approvers: [], minRows: 0, matched: [], unknown: [] };
+  const decimal = decimalSeparator(locale);
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (rule.when.some(c => !(c.field in values))) {
+      result.unknown.push(rule.name);
+      continue;
+    }
+    if (!rule.when.every(c => matches(c, values[c.field], decimal))) continue;
+    result.matched.push(rule.name);
+    result.minRows = Math.max(result.minRows, rule.minRows);
+    for (const a of rule.approvers) {
+      const key = a.login.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.approvers.push({ ...a, rule: rule.name });
+    }
+  }
+  return result;
+}
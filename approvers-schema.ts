@@ -0,0 +1,254 @@
+// Shape of the approvers data the repeater edits and the JSON it hands to Nintex Workflow.
+
+export type PrincipalType = 'user' | 'group';
+
+export type Person = {
+  id: string;
+  displayName: string;
+  email?: string;
+  login: string; // UPN or mail; for groups mail or object id
+  principalType?: PrincipalType; // absent means user
+  jobTitle?: string;
+  department?: string;
+  officeLocation?: string;
+  external?: boolean; // entered by email, not found in the directory
+};
+
+export type StageMode = 'all' | 'any'; // all must approve | any one approves
+
+export type ApproverRow = {
+  order: number; // 1-based position across all stages
+  stage: number; // 1-based stage the row belongs to; rows are kept contiguous by stage
+  approver: string; // login (UPN or mail), '' while the row is empty
+  principalType?: PrincipalType; // absent means user
+  locked?: boolean; // set by templates; the requester cannot change or remove the row
+  template?: string; // name of the template that locked the row
+  fields?: Record<string, string>; // designer-declared row columns by key; empty values are left out
+  backup?: Person; // optional approver the workflow escalates to
+  external?: boolean; // free-form email outside the directory
+  rule?: string; // name of the approval rule that added (or locked) the row
+  ruleAdopted?: boolean; // picked by the requester before the rule required it
+};
+
+export type Stage = { mode: StageMode };
+
+export const SCHEMA_VERSION = 2;
+
+// Serialized approver: the login workflows route on plus a snapshot of the resolved
+// person, so display mode can render names without calling Graph.
+export type ApproverEntry = {
+  order: number;
+  stage: number;
+  approver: string;
+  principalType: PrincipalType; // lets workflows route group approvals differently
+  locked?: true;
+  template?: string; // template that locked this approver
+  external?: true; // route through an external approval task
+  rule?: string; // approval rule that made this approver mandatory
+  ruleAdopted?: true; // chosen by the requester; only unlocked when the rule stops applying
+  person: Person | null;
+  backup?: { approver: string; person: Person | null };
+  // plus one string property per filled row column, e.g. "role": "Technical reviewer"
+};
+
+// Properties of a saved approver that are not row columns
+export const ENTRY_KEYS = ['order', 'stage', 'approver', 'principalType', 'locked', 'template', 'external', 'rule', 'ruleAdopted', 'person', 'backup'];
+
+// Workflows that ignore stages loop over `approvers`; staged workflows loop over
+// `stages` and then over the approvers inside each stage.
+export type ApproversEnvelope = {
+  schemaVersion: number;
+  approvers: ApproverEntry[];
+  stages: Array<{ stage: number; mode: StageMode; approvers: ApproverEntry[] }>;
+};
+
+export type LoadedApprovers = {
+  rows: ApproverRow[];
+  stages: Stage[];
+  people: Record<number, Person | null>; // by row index; null when no snapshot was stored
+  migratedFrom?: number;
+};
+
+export class ApproversSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApproversSchemaError';
+  }
+}
+
+// ======= Serialize =======
+function snapshot(p: Person | null | undefined): Person | null {
+  if (!p) return null;
+  return {
+    id: p.id,
+    displayName: p.displayName,
+    email: p.email,
+    login: p.login,
+    principalType: p.principalType || 'user',
+    ...(p.external ? { external: true } : {}),
+    jobTitle: p.jobTitle,
+    department: p.department,
+    officeLocation: p.officeLocation,
+  };
+}
+
+// Empty rows are UI-only (e.g. padding up to minRows) and are left out, with order and
+// stage numbers compacted over the approvers that remain.
+export function serializeApprovers(rows: ApproverRow[], stages: Stage[], people: Record<number, Person | null>): ApproversEnvelope {
+  const stageNumbers: number[] = [];
+  const approvers: ApproverEntry[] = [];
+  rows.forEach((row, i) => {
+    if (!row.approver) return;
+    if (stageNumbers[stageNumbers.length - 1] !== row.stage) stageNumbers.push(row.stage);
+    approvers.push({
+      order: approvers.length + 1,
+      stage: stageNumbers.length,
+      approver: row.approver,
+      ...row.fields,
+      principalType: row.principalType || 'user',
+      ...(row.locked ? { locked: true as const } : {}),
+      ...(row.locked && row.template ? { template: row.template } : {}),
+      ...(row.external ? { external: true as const } : {}),
+      ...(row.rule ? { rule: row.rule } : {}),
+      ...(row.rule && row.ruleAdopted ? { ruleAdopted: true as const } : {}),
+      person: snapshot(people[i]),
+      ...(row.backup ? { backup: { approver: row.backup.login, person: snapshot(row.backup) } } : {}),
+    });
+  });
+  const envelope: ApproversEnvelope = { schemaVersion: SCHEMA_VERSION, approvers, stages: [] };
+  for (const entry of approvers) {
+    let stage = envelope.stages[envelope.stages.length - 1];
+    if (!stage || stage.stage !== entry.stage) {
+      stage = { stage: entry.stage, mode: stages[stageNumbers[entry.stage - 1] - 1]?.mode || 'all', approvers: [] };
+      envelope.stages.push(stage);
+    }
+    stage.approvers.push(entry);
+  }
+  return envelope;
+}
+
+// ======= Parse / migrate =======
+export function parseApprovers(raw: string | null | undefined): LoadedApprovers {
+  if (!raw || !raw.trim()) return { rows: [], stages: [], people: {} };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ApproversSchemaError('Saved approvers data is not valid JSON.');
+  }
+  if (Array.isArray(parsed)) {
+    return { ...migrateV1(parsed), migratedFrom: 1 };
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw new ApproversSchemaError('Saved approvers data must be a JSON object or array.');
+  }
+  const version = (parsed as any).schemaVersion;
+  if (typeof version !== 'number') {
+    throw new ApproversSchemaError('Saved approvers data has no schemaVersion.');
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new ApproversSchemaError(`Saved approvers data uses schema version ${version}, this control supports up to ${SCHEMA_VERSION}.`);
+  }
+  if (version !== SCHEMA_VERSION) {
+    throw new ApproversSchemaError(`Unknown approvers schema version ${version}.`);
+  }
+  return readV2(parsed as ApproversEnvelope);
+}
+
+// v1 is any bare array: the original `{ order, approver }[]`, where every approver is
+// its own sequential stage, or the staged `{ stage, mode, approvers }[]`.
+function migrateV1(items: any[]): LoadedApprovers {
+  const rows: ApproverRow[] = [];
+  const stages: Stage[] = [];
+  const people: Record<number, Person | null> = {};
+  items.forEach((item, i) => {
+    if (!item || typeof item !== 'object') {
+      throw new ApproversSchemaError(`Approver entry ${i + 1} is not an object.`);
+    }
+    const approvers = Array.isArray(item.approvers) ? item.approvers : [item];
+    stages.push({ mode: item.mode === 'any' ? 'any' : 'all' });
+    for (const a of approvers) {
+      if (a?.approver != null && typeof a.approver !== 'string') {
+        throw new ApproversSchemaError(`Approver entry ${rows.length + 1} has a non-text approver.`);
+      }
+      people[rows.length] = null;
+      rows.push({ order: rows.length + 1, stage: stages.length, approver: a?.approver || '' });
+    }
+  });
+  return { rows, stages, people };
+}
+
+function readPerson(value: unknown, position: number): Person | null {
+  if (value == null) return null;
+  const p = value as Person;
+  if (typeof p !== 'object' || typeof p.id !== 'string' || typeof p.displayName !== 'string' || typeof p.login !== 'string') {
+    throw new ApproversSchemaError(`Approver ${position} has an invalid person snapshot.`);
+  }
+  return {
+    id: p.id,
+    displayName: p.displayName,
+    email: typeof p.email === 'string' ? p.email : undefined,
+    login: p.login,
+    principalType: p.principalType === 'group' ? 'group' : 'user',
+    external: p.external === true || undefined,
+    jobTitle: typeof p.jobTitle === 'string' ? p.jobTitle : undefined,
+    department: typeof p.department === 'string' ? p.department : undefined,
+    officeLocation: typeof p.officeLocation === 'string' ? p.officeLocation : undefined,
+  };
+}
+
+function readBackup(value: unknown, position: number): Person | undefined {
+  const backup = value as ApproverEntry['backup'];
+  if (!backup || typeof backup !== 'object' || typeof backup.approver !== 'string' || !backup.approver) return undefined;
+  return readPerson(backup.person, position)
+    || { id: backup.approver, displayName: backup.approver, email: backup.approver, login: backup.approver, principalType: 'user' };
+}
+
+function readFields(entry: ApproverEntry): Record<string, string> | undefined {
+  const fields = Object.entries(entry as Record<string, unknown>)
+    .filter((e): e is [string, string] => !ENTRY_KEYS.includes(e[0]) && typeof e[1] === 'string' && !!e[1]);
+  return fields.length ? Object.fromEntries(fields) : undefined;
+}
+
+function readV2(envelope: ApproversEnvelope): LoadedApprovers {
+  if (!Array.isArray(envelope.approvers)) {
+    throw new ApproversSchemaError('Saved approvers data is missing the approvers list.');
+  }
+  const modes = new Map<number, StageMode>();
+  for (const s of Array.isArray(envelope.stages) ? envelope.stages : []) {
+    if (s && Number.isInteger(s.stage)) modes.set(s.stage, s.mode === 'any' ? 'any' : 'all');
+  }
+  const rows: ApproverRow[] = [];
+  const people: Record<number, Person | null> = {};
+  const stageNumbers: number[] = [];
+  envelope.approvers.forEach((a, i) => {
+    if (!a || typeof a !== 'object' || typeof a.approver !== 'string') {
+      throw new ApproversSchemaError(`Approver ${i + 1} is missing its approver login.`);
+    }
+    if (!Number.isInteger(a.stage) || a.stage < 1) {
+      throw new ApproversSchemaError(`Approver ${i + 1} has an invalid stage.`);
+    }
+    if (stageNumbers.length && a.stage < stageNumbers[stageNumbers.length - 1]) {
+      throw new ApproversSchemaError(`Approver ${i + 1} is out of stage order.`);
+    }
+    if (stageNumbers[stageNumbers.length - 1] !== a.stage) stageNumbers.push(a.stage);
+    people[i] = readPerson(a.person, i + 1);
+    rows.push({
+      order: i + 1,
+      stage: a.stage,
+      approver: a.approver,
+      principalType: a.principalType === 'group' ? 'group' : 'user',
+      locked: a.locked === true || undefined,
+      template: a.locked === true && typeof a.template === 'string' && a.template ? a.template : undefined,
+      external: a.external === true || undefined,
+      rule: typeof a.rule === 'string' && a.rule ? a.rule : undefined,
+      ruleAdopted: a.ruleAdopted === true || undefined,
+      fields: readFields(a),
+      backup: readBackup(a.backup, i + 1),
+    });
+  });
+  // Stage numbers are compacted to 1..n in the order they appear
+  const stages = stageNumbers.map(n => ({ mode: modes.get(n) || 'all' as StageMode }));
+  rows.forEach(r => r.stage = stageNumbers.indexOf(r.stage) + 1);
+  return { rows, stages, people };
+}
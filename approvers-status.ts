@@ -0,0 +1,117 @@
+// Approval outcomes written back by the workflow into a second textbox, merged into the
+// display-mode rows. Each outcome names its approver by order or login:
+// [{ "order": 1, "approver": "jane@contoso.com", "status": "approved", "timestamp": "2025-03-01T10:00:00Z", "comment": "OK" }]
+
+import type { ApproverRow, Person, Stage } from './approvers-schema.js';
+
+export type ApprovalState = 'approved' | 'rejected' | 'pending' | 'skipped';
+
+export type ApprovalOutcome = {
+  order?: number;
+  approver?: string;
+  state: ApprovalState;
+  status: string; // text as written by the workflow
+  timestamp?: string;
+  comment?: string;
+};
+
+export type ApprovalProgress = {
+  outcomes: Record<number, ApprovalOutcome>; // by row index
+  current: number[]; // row indices whose decision is awaited now
+  approved: number;
+  total: number;
+  rejected: boolean;
+  complete: boolean;
+};
+
+const STATES: Record<string, ApprovalState> = {
+  approved: 'approved',
+  approve: 'approved',
+  completed: 'approved',
+  rejected: 'rejected',
+  reject: 'rejected',
+  declined: 'rejected',
+  skipped: 'skipped',
+  cancelled: 'skipped',
+  canceled: 'skipped',
+};
+
+export function parseOutcomes(json: string | undefined | null): ApprovalOutcome[] {
+  if (!json || !json.trim()) return [];
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Approval status data is not valid JSON.');
+  }
+  // Accept a bare array or an object wrapping it, e.g. { "approvers": [...] }
+  const items = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.approvers) ? parsed.approvers : null;
+  if (!items) throw new Error('Approval status data must be a JSON array.');
+  return items
+    .filter((o: any) => o && typeof o === 'object' && (Number.isInteger(o.order) || typeof o.approver === 'string'))
+    .map((o: any) => {
+      const status = typeof o.status === 'string' ? o.status.trim() : '';
+      return {
+        order: Number.isInteger(o.order) ? o.order : undefined,
+        approver: typeof o.approver === 'string' ? o.approver : undefined,
+        state: STATES[status.toLowerCase()] || 'pending',
+        status: status || 'Pending',
+        timestamp: typeof o.timestamp === 'string' ? o.timestamp : undefined,
+        comment: typeof o.comment === 'string' && o.comment.trim() ? o.comment.trim() : undefined,
+      };
+    });
+}
+
+// Orders are compacted over filled rows when saved, so an outcome's order counts only rows with an approver
+function matchOutcome(outcomes: ApprovalOutcome[], order: number, row: ApproverRow, person: Person | null | undefined): ApprovalOutcome | undefined {
+  const logins = [row.approver, person?.login, person?.email].filter(Boolean).map(v => v!.toLowerCase());
+  return outcomes.find(o => o.approver && logins.includes(o.approver.toLowerCase()))
+    || outcomes.find(o => !o.approver && o.order === order);
+}
+
+export function computeProgress(
+  rows: ApproverRow[],
+  stages: Stage[],
+  people: Record<number, Person | null>,
+  outcomes: ApprovalOutcome[],
+): ApprovalProgress {
+  const merged: Record<number, ApprovalOutcome> = {};
+  let order = 0;
+  rows.forEach((row, i) => {
+    if (!row.approver) return;
+    order++;
+    const outcome = matchOutcome(outcomes, order, row, people[i]);
+    if (outcome) merged[i] = outcome;
+  });
+  const filled = rows.map((r, i) => i).filter(i => rows[i].approver);
+  const rejected = filled.some(i => merged[i]?.state === 'rejected');
+  // The current stage is the first one still waiting; inside it every pending approver is current.
+  // An 'any' stage where everyone was skipped can no longer finish, so the list is not approved.
+  let current: number[] = [];
+  let stalled = false;
+  if (!rejected) {
+    const stageNumbers = Array.from(new Set(filled.map(i => rows[i].stage)));
+    for (const stage of stageNumbers) {
+      const members = filled.filter(i => rows[i].stage === stage);
+      const decided = members.filter(i => merged[i] && merged[i].state !== 'pending');
+      const done = stages[stage - 1]?.mode === 'any'
+        ? members.some(i => merged[i]?.state === 'approved')
+        : decided.length === members.length;
+      if (!done) {
+        current = members.filter(i => !merged[i] || merged[i].state === 'pending');
+        stalled = !current.length;
+        break;
+      }
+    }
+  }
+  const approved = filled.filter(i => merged[i]?.state === 'approved').length;
+  return {
+    outcomes: merged,
+    current,
+    approved,
+    total: filled.length,
+    rejected,
+    // Skipping everyone is not an approval
+    complete: !rejected && !stalled && !current.length && approved > 0,
+  };
+}
@@ -0,0 +1,166 @@
+// The form's multiline textbox that carries the approvers JSON to Nintex Workflow. The
+// repeater hides it, keeps it in sync and reloads when something else changes it (form
+// rules, other scripts, a restored draft).
+
+const HIDDEN_STYLE: Record<string, string> = {
+  position: 'absolute',
+  width: '0',
+  height: '0',
+  margin: '0',
+  padding: '0',
+  overflow: 'hidden',
+  opacity: '0',
+  'pointer-events': 'none',
+};
+
+// A textarea or input; display forms may render the value as plain text in another element
+type TextField = HTMLTextAreaElement | HTMLInputElement;
+
+export class TargetTextbox {
+  private field: TextField | null = null;
+  private hidden: [HTMLElement, string | null] | null = null;
+  private waiting?: MutationObserver;
+  private observer?: MutationObserver;
+  private writing = false;
+  private lastWritten: string | null = null;
+  private readonly onEvent = () => this.notify();
+
+  // onAttach runs once the textbox is found, which can be after Nintex renders the form
+  constructor(
+    private doc: Document,
+    readonly id: string,
+    private onExternalChange: (value: string) => void,
+    private onAttach?: (value: string) => void,
+  ) {}
+
+  get attached(): boolean {
+    return !!this.field;
+  }
+
+  attach() {
+    if (this.field || this.waiting) return;
+    if (this.tryAttach()) return;
+    console.warn('Textbox not found yet, waiting for ID:', this.id);
+    this.waiting = new MutationObserver(() => {
+      if (this.tryAttach()) {
+        this.waiting?.disconnect();
+        this.waiting = undefined;
+      }
+    });
+    this.waiting.observe(this.doc.body, { childList: true, subtree: true });
+  }
+
+  detach() {
+    this.waiting?.disconnect();
+    this.waiting = undefined;
+    this.observer?.disconnect();
+    this.observer = undefined;
+    if (this.field) {
+      this.field.removeEventListener('input', this.onEvent);
+      this.field.removeEventListener('change', this.onEvent);
+      delete (this.field as any).value; // back to the prototype accessor
+      this.field.removeAttribute('tabindex');
+    }
+    if (this.hidden) {
+      const [el, style] = this.hidden;
+      if (style === null) el.removeAttribute('style');
+      else el.setAttribute('style', style);
+      el.removeAttribute('aria-hidden');
+    }
+    this.hidden = null;
+    this.field = null;
+  }
+
+  read(): string {
+    if (!this.field) return '';
+    return this.field.value ?? this.field.textContent ?? '';
+  }
+
+  // Writes without focusing the textbox; the events let Nintex and form rules see the change
+  write(value: string) {
+    if (!this.field) {
+      console.warn('Textbox not found for ID:', this.id);
+      return;
+    }
+    this.lastWritten = value;
+    if (this.field.value === value) return;
+    this.writing = true;
+    try {
+      this.field.value = value;
+      this.field.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+      this.field.dispatchEvent(new Event('change', { bubbles: true, composed: true }));
+      for (const type of ['ntx-value-change', 'nf-value-changed']) {
+        this.field.dispatchEvent(new CustomEvent(type, { detail: value, bubbles: true, composed: true, cancelable: false }));
+      }
+      const controlUtils = (this.doc.defaultView as any)?.Nintex?.FormFiller?.extensibility?.controlUtils;
+      if (controlUtils?.updateControlValue) {
+        controlUtils.updateControlValue(this.id, value);
+        console.log('Used Nintex API to update control value for ID:', this.id);
+      }
+    } catch (e) {
+      console.error('Failed to update textbox:', this.id, e);
+    } finally {
+      this.writing = false;
+    }
+  }
+
+  // ======= Attach =======
+  // Nintex renders the id on the textarea itself or data-controlid on its wrapper
+  private find(): { field: TextField; wrapper: HTMLElement | null } | null {
+    const byId = this.doc.getElementById(this.id);
+    const wrapperById = this.doc.querySelector<HTMLElement>(`[data-controlid="${CSS.escape(this.id)}"]`);
+    const field = byId && /^(TEXTAREA|INPUT)$/.test(byId.tagName)
+      ? byId as TextField
+      : (byId || wrapperById)?.querySelector<TextField>('textarea, input') || byId as TextField | null;
+    if (!field) return null;
+    const wrapper = wrapperById
+      || field.closest<HTMLElement>('.nf-filler-control, .nf-filler-control-inner, .ms-formfield');
+    return { field, wrapper };
+  }
+
+  private tryAttach(): boolean {
+    const found = this.find();
+    if (!found) return false;
+    this.field = found.field;
+    const el = found.wrapper || found.field;
+    this.hidden = [el, el.getAttribute('style')];
+    for (const [prop, value] of Object.entries(HIDDEN_STYLE)) el.style.setProperty(prop, value, 'important');
+    el.setAttribute('aria-hidden', 'true');
+    this.field.setAttribute('tabindex', '-1');
+    this.field.addEventListener('input', this.onEvent);
+    this.field.addEventListener('change', this.onEvent);
+    this.watchValue(this.field);
+    // Display forms and drafts can replace the text node instead of the value
+    this.observer = new MutationObserver(() => this.notify());
+    this.observer.observe(this.field, { childList: true, characterData: true, subtree: true });
+    console.log('Attached to JSON textbox:', this.id);
+    this.onAttach?.(this.read());
+    return true;
+  }
+
+  // Scripts often assign .value without firing events; wrap the accessor on this element
+  private watchValue(field: TextField) {
+    const proto = Object.getPrototypeOf(field);
+    const descriptor = Object.getOwnPropertyDescriptor(proto, 'value');
+    if (!descriptor?.get || !descriptor.set) return;
+    const notify = () => this.notify();
+    Object.defineProperty(field, 'value', {
+      configurable: true,
+      get() {
+        return descriptor.get!.call(this);
+      },
+      set(v: string) {
+        descriptor.set!.call(this, v);
+        queueMicrotask(notify);
+      },
+    });
+  }
+
+  private notify() {
+    if (this.writing || !this.field) return;
+    const value = this.read();
+    if (value === this.lastWritten) return; // our own write coming back
+    this.lastWritten = value;
+    this.onExternalChange(value);
+  }
+}
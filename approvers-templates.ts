@@ -0,0 +1,42 @@
+// Approver list templates: named lists of logins a requester can apply with one click.
+// Defined as JSON in the designer or served from a same-origin URL:
+// [{ "name": "IT Change Board", "approvers": [{ "login": "cab@contoso.com", "locked": true }, "ops@contoso.com"] }]
+
+export type TemplateItem = { login: string; locked: boolean };
+
+export type ApproverTemplate = { name: string; approvers: TemplateItem[] };
+
+export function parseTemplates(json: unknown, source: string): ApproverTemplate[] {
+  let parsed = json;
+  if (typeof json === 'string') {
+    if (!json.trim()) return [];
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error(`Approver templates from ${source} are not valid JSON.`);
+    }
+  }
+  if (!Array.isArray(parsed)) throw new Error(`Approver templates from ${source} must be a JSON array.`);
+  return parsed
+    .filter((t: any) => t && typeof t.name === 'string' && Array.isArray(t.approvers))
+    .map((t: any) => ({
+      name: t.name,
+      approvers: t.approvers
+        .map((a: any) => typeof a === 'string' ? { login: a, locked: false } : { login: String(a?.login || ''), locked: a?.locked === true })
+        .filter((a: TemplateItem) => a.login),
+    }));
+}
+
+// Only same-origin URLs are fetched, with the page's own session
+export async function fetchTemplates(url: string): Promise<ApproverTemplate[]> {
+  const resolved = new URL(url, window.location.href);
+  if (resolved.origin !== window.location.origin) {
+    throw new Error(`Approver templates URL must be on ${window.location.origin}.`);
+  }
+  const res = await fetch(resolved.href, { credentials: 'same-origin', headers: { Accept: 'application/json' } });
+  if (!res.ok) {
+    console.error('Approver templates request failed:', res.status, res.statusText);
+    throw new Error(`Approver templates request failed: ${res.status} ${res.statusText}`);
+  }
+  return parseTemplates(await res.json(), resolved.pathname);
+}
@@ -0,0 +1,81 @@
+// Validation rules for the approvers list. Pure so the component can re-run it on every render.
+
+import type { ApproverRow, Person } from './approvers-schema.js';
+import type { ColumnDef } from './approvers-columns.js';
+import { english, type Translate } from './approvers-i18n.js';
+
+export type ValidationRules = {
+  required: boolean; // Nintex "required" standard property
+  noDuplicates: boolean;
+  noSelfApproval: boolean;
+  requireFilledRows: boolean;
+  minFilledRows: number;
+  columns: ColumnDef[]; // required row columns must be filled on rows that have an approver
+};
+
+export type ValidationResult = {
+  valid: boolean;
+  rowErrors: Record<number, string>; // by row index
+  messages: string[]; // errors about the list as a whole
+  emptyRows: number[]; // reported separately so the UI can wait until the control was visited
+};
+
+function identities(row: ApproverRow, person: Person | null | undefined): string[] {
+  return [row.approver, person?.login, person?.email, person?.id]
+    .filter((v): v is string => !!v)
+    .map(v => v.toLowerCase());
+}
+
+export function validateApprovers(
+  rows: ApproverRow[],
+  people: Record<number, Person | null>,
+  rules: ValidationRules,
+  currentUser: string[],
+  t: Translate = english,
+): ValidationResult {
+  const rowErrors: Record<number, string> = {};
+  const messages: string[] = [];
+  const emptyRows: number[] = [];
+  const filled = rows.filter(r => r.approver).length;
+  // An optional control may be left empty; once it has approvers, Minimum approvers applies
+  const minFilled = rules.required || filled > 0 ? Math.max(rules.required ? 1 : 0, rules.minFilledRows || 0) : 0;
+
+  if (filled < minFilled) {
+    messages.push(t('minApprovers', { count: minFilled }));
+  }
+
+  const me = new Set(currentUser.map(u => u.toLowerCase()));
+  const seen = new Map<string, number>();
+  rows.forEach((row, i) => {
+    if (!row.approver) {
+      // An untouched optional control with no approvers at all is fine
+      if (rules.requireFilledRows && (filled > 0 || minFilled > 0)) emptyRows.push(i);
+      return;
+    }
+    const person = people[i];
+    const ids = identities(row, person);
+    if (rules.noSelfApproval && row.principalType !== 'group' && ids.some(id => me.has(id))) {
+      rowErrors[i] = t('selfApproval');
+      return;
+    }
+    if (rules.noDuplicates) {
+      const firstIndex = ids.map(id => seen.get(id)).find(n => n !== undefined);
+      if (firstIndex !== undefined) {
+        rowErrors[i] = t('duplicate', { name: person?.displayName || row.approver, order: rows[firstIndex].order });
+        return;
+      }
+      ids.forEach(id => seen.set(id, i));
+    }
+    const missing = rules.columns.filter(c => c.required && !row.fields?.[c.key]);
+    if (missing.length) {
+      rowErrors[i] = t('columnsRequired', { count: missing.length, labels: missing.map(c => c.label).join(', ') });
+    }
+  });
+
+  return {
+    valid: !messages.length && !emptyRows.length && !Object.keys(rowErrors).length,
+    rowErrors,
+    messages,
+    emptyRows,
+  };
+}
@@ -0,0 +1,675 @@
+// Directory providers: where the picker searches for people and resolves saved logins.
+// The component only talks to the DirectoryProvider interface; the directory scope
+// policy is applied by every provider so results are consistent across sources.
+
+import type { Person } from './approvers-schema.js';
+import { buildUsersFilter, isInScope, isScopeEmpty, needsAccountLookup, type DirectoryScope, type ScopedEntry } from './directory-scope.js';
+import { dedupeEntries, matchesAll, rankEntries } from './directory-ranking.js';
+import { errorForStatus, isRetryStatus, RequestError, requestWithRetry, retryAfterMs, wait } from './directory-requests.js';
+
+export type DirectoryProviderKind = 'graph' | 'sharepoint' | 'static';
+
+// Thrown when a token cannot be obtained without user interaction; the component
+// answers it with a Sign in button instead of opening a prompt nobody asked for.
+export class SignInRequiredError extends Error {
+  constructor(message = 'Sign in to load approvers.') {
+    super(message);
+    this.name = 'SignInRequiredError';
+  }
+}
+
+// Called once per login as results arrive; person is null when the login was not found.
+export type ResolveCallback = (login: string, person: Person | null, error?: unknown) => void;
+
+// signal cancels a search or lookup that is no longer needed (the row was typed in again)
+export interface DirectoryProvider {
+  search(term: string, signal?: AbortSignal): Promise<Person[]>;
+  resolve(login: string, signal?: AbortSignal): Promise<Person>;
+  // Like resolve, with the directory scope applied: null when the person is out of scope.
+  // Throws a not-found RequestError when nobody has that login or address.
+  resolveInScope(login: string, signal?: AbortSignal): Promise<Person | null>;
+  resolveMany(logins: string[], onResolved: ResolveCallback, signal?: AbortSignal): Promise<void>;
+  // Group support is optional; providers without it never offer groups
+  searchGroups?(term: string, signal?: AbortSignal): Promise<Person[]>;
+  expandGroup?(groupId: string, signal?: AbortSignal): Promise<Person[]>;
+  // B2B guest account invited with this address, or null when there is none or it is out of scope
+  findGuest?(email: string, signal?: AbortSignal): Promise<Person | null>;
+  // Manager of the given user id, or of the signed-in user when null; null at the top of the chain
+  getManager?(userId: string | null, signal?: AbortSignal): Promise<ManagerResult | null>;
+  // 48x48 profile photo, or null when the person has none
+  getPhoto?(userId: string, signal?: AbortSignal): Promise<Blob | null>;
+  // Automatic replies of the given mailbox, or null when they are off or cannot be read
+  getAutomaticReplies?(address: string, signal?: AbortSignal): Promise<AutomaticReplies | null>;
+}
+
+export type ManagerResult = { person: Person; jobTitle?: string };
+
+export type AutomaticReplies = {
+  message: string;
+  start?: string; // ISO date-times of the scheduled window, absent when always on
+  end?: string;
+};
+
+type ScopedPerson = ScopedEntry & { displayName: string; givenName?: string; surname?: string; jobTitle?: string; officeLocation?: string };
+
+export function clampTop(maxSuggestions: number): number {
+  return Math.max(1, Math.min(maxSuggestions || 8, 25));
+}
+
+function toPerson(u: ScopedPerson): Person {
+  return {
+    id: u.id,
+    displayName: u.displayName,
+    email: u.mail || u.userPrincipalName,
+    login: u.userPrincipalName || u.mail || u.id,
+    jobTitle: u.jobTitle || undefined,
+    department: u.department || undefined,
+    officeLocation: u.officeLocation || undefined,
+  };
+}
+
+// Fallback for providers without a bulk endpoint
+async function resolveIndividually(provider: DirectoryProvider, logins: string[], onResolved: ResolveCallback, signal?: AbortSignal) {
+  await Promise.all(logins.map(async login => {
+    try {
+      onResolved(login, await provider.resolve(login, signal));
+    } catch (err) {
+      onResolved(login, null, err);
+    }
+  }));
+}
+
+function toGroupPerson(g: { id: string; displayName: string; mail?: string }): Person {
+  return { id: g.id, displayName: g.displayName, email: g.mail || undefined, login: g.mail || g.id, principalType: 'group' };
+}
+
+// ======= Microsoft Graph =======
+type GraphUser = {
+  id: string;
+  displayName: string;
+  userPrincipalName?: string;
+  mail?: string;
+  givenName?: string;
+  surname?: string;
+  department?: string;
+  companyName?: string;
+  jobTitle?: string;
+  officeLocation?: string;
+  accountEnabled?: boolean;
+  userType?: string;
+};
+
+type GraphGroup = { id: string; displayName: string; mail?: string };
+
+type GraphDateTime = { dateTime?: string; timeZone?: string };
+
+type GraphMailTips = {
+  automaticReplies?: { message?: string; scheduledStartTime?: GraphDateTime; scheduledEndTime?: GraphDateTime };
+  error?: { code?: string; message?: string };
+};
+
+type GraphPerson = GraphUser & {
+  scoredEmailAddresses?: Array<{ address?: string }>;
+  personType?: { class?: string; subclass?: string };
+};
+
+// Graph $batch accepts at most 20 requests per call
+const BATCH_SIZE = 20;
+
+// Rounds of retrying the throttled requests of a batch, and the longest wait between them
+const BATCH_RETRIES = 3;
+const BATCH_MAX_DELAY_MS = 30_000;
+
+const USER_SELECT = 'id,displayName,mail,userPrincipalName,jobTitle,department,officeLocation';
+
+// Plus what the directory scope inspects
+const SCOPED_USER_SELECT = `${USER_SELECT},companyName,accountEnabled,userType`;
+
+// Properties /users $search matches the typed text against
+const USER_SEARCH_FIELDS = ['displayName', 'mail', 'userPrincipalName', 'givenName', 'surname', 'jobTitle'];
+
+export type GraphEndpoint = 'me.people' | 'users' | 'combined';
+
+export type GraphProviderOptions = {
+  getAccessToken: () => Promise<string>;
+  baseUrl: string; // Graph root for the tenant's cloud, e.g. https://graph.microsoft.us
+  endpoint: GraphEndpoint; // combined: /me/people and /users together, merged and ranked
+  maxSuggestions: number;
+  scope: DirectoryScope;
+};
+
+export class GraphDirectoryProvider implements DirectoryProvider {
+  constructor(private options: GraphProviderOptions) {}
+
+  private get api(): string {
+    return `${(this.options.baseUrl || 'https://graph.microsoft.com').replace(/\/+$/, '')}/v1.0`;
+  }
+
+  async search(term: string, signal?: AbortSignal): Promise<Person[]> {
+    const token = await this.options.getAccessToken();
+    const top = clampTop(this.options.maxSuggestions);
+    const scope = this.options.scope;
+    const scoped = !isScopeEmpty(scope);
+    const endpoint = this.options.endpoint;
+    // Over-fetch when scoped so client-side filtering still leaves enough suggestions
+    const fetchTop = scoped ? Math.min(top * 3, 50) : top;
+    console.log('Graph search:', { term, endpoint, top, scope });
+    let people: ScopedPerson[] = [];
+    let users: ScopedPerson[] = [];
+    if (endpoint === 'combined') {
+      // One failing source still leaves suggestions from the other
+      const [fromPeople, fromUsers] = await Promise.allSettled([this.searchPeople(term, token, fetchTop, signal), this.searchUsers(term, token, fetchTop, signal)]);
+      signal?.throwIfAborted();
+      if (fromPeople.status === 'rejected' && fromUsers.status === 'rejected') throw fromPeople.reason;
+      if (fromPeople.status === 'fulfilled') people = fromPeople.value;
+      else console.warn('Graph /me/people search failed, using /users only:', fromPeople.reason);
+      if (fromUsers.status === 'fulfilled') users = fromUsers.value;
+      else console.warn('Graph /users search failed, using /me/people only:', fromUsers.reason);
+    } else if (endpoint === 'users') {
+      users = await this.searchUsers(term, token, fetchTop, signal);
+    } else {
+      people = await this.searchPeople(term, token, fetchTop, signal);
+    }
+    // /me/people comes back in relevance order (people you work with first); keep that as a boost
+    const relevance = new Map(people.map((p, i) => [p.id, 30 * (1 - i / people.length)]));
+    const entries = rankEntries(dedupeEntries([...people, ...users]), term, e => relevance.get(e.id) || 0);
+    const results = entries
+      .filter(e => !scoped || isInScope(e, scope))
+      .slice(0, top)
+      .map(toPerson);
+    console.log(`Graph ${endpoint} results:`, results);
+    return results;
+  }
+
+  private async searchUsers(term: string, token: string, fetchTop: number, signal?: AbortSignal): Promise<ScopedPerson[]> {
+    const filter = buildUsersFilter(this.options.scope);
+    const select = `${SCOPED_USER_SELECT},givenName,surname`;
+    const quoted = term.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    const search = USER_SEARCH_FIELDS.map(field => `"${field}:${quoted}"`).join(' OR ');
+    const url = `${this.api}/users?$search=${encodeURIComponent(search)}`
+      + (filter ? `&$filter=${encodeURIComponent(filter)}` : '')
+      + `&$select=${select}&$count=true&$top=${fetchTop}`;
+    console.log('Url', url);
+    const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}`, 'ConsistencyLevel': 'eventual' } }, 'Graph /users search', { signal });
+    const data = await res.json() as { value: GraphUser[] };
+    return data.value || [];
+  }
+
+  private async searchPeople(term: string, token: string, fetchTop: number, signal?: AbortSignal): Promise<ScopedPerson[]> {
+    const url = `${this.api}/me/people?$search="${encodeURIComponent(term)}"&$top=${fetchTop}`;
+    console.log('Url', url);
+    const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}`, 'ConsistencyLevel': 'eventual' } }, 'Graph /me/people search', { signal });
+    const data = await res.json() as { value: GraphPerson[] };
+    let entries: ScopedPerson[] = (data.value || []).map(p => ({
+      id: p.id,
+      displayName: p.displayName,
+      mail: p.mail || p.scoredEmailAddresses?.[0]?.address,
+      userPrincipalName: p.userPrincipalName,
+      givenName: p.givenName,
+      surname: p.surname,
+      department: p.department,
+      companyName: p.companyName,
+      jobTitle: p.jobTitle,
+      officeLocation: p.officeLocation,
+      personSubclass: p.personType?.subclass,
+    }));
+    const scope = this.options.scope;
+    if (!isScopeEmpty(scope) && needsAccountLookup(scope)) {
+      entries = await this.withAccountDetails(entries, token, signal);
+    }
+    return entries;
+  }
+
+  async findGuest(email: string, signal?: AbortSignal): Promise<Person | null> {
+    const token = await this.options.getAccessToken();
+    const address = email.trim().toLowerCase().replace(/'/g, "''");
+    const filter = `userType eq 'Guest' and (mail eq '${address}' or otherMails/any(m:m eq '${address}'))`;
+    const url = `${this.api}/users?$filter=${encodeURIComponent(filter)}&$select=${SCOPED_USER_SELECT}&$count=true&$top=1`;
+    console.log('Looking up guest account:', { email, url });
+    const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}`, 'ConsistencyLevel': 'eventual' } }, 'Graph guest lookup', { signal });
+    const data = await res.json() as { value: GraphUser[] };
+    const guest = data.value?.[0];
+    if (guest && !isInScope(guest, this.options.scope)) {
+      console.log('Guest account is outside the directory scope:', email);
+      return null;
+    }
+    return guest ? toPerson(guest) : null;
+  }
+
+  async resolve(login: string, signal?: AbortSignal): Promise<Person> {
+    const token = await this.options.getAccessToken();
+    const url = `${this.api}/users/${encodeURIComponent(login)}?$select=${USER_SELECT}`;
+    console.log('Fetching user details:', { login, url });
+    const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}` } }, 'Graph user lookup', { signal });
+    return toPerson(await res.json() as GraphUser);
+  }
+
+  // Filters on mail as well as the user name, since many tenants' addresses differ from their UPN
+  async resolveInScope(login: string, signal?: AbortSignal): Promise<Person | null> {
+    const token = await this.options.getAccessToken();
+    const value = login.trim().toLowerCase().replace(/'/g, "''");
+    const filter = `mail eq '${value}' or userPrincipalName eq '${value}'`;
+    const url = `${this.api}/users?$filter=${encodeURIComponent(filter)}&$select=${SCOPED_USER_SELECT}&$top=1`;
+    console.log('Fetching user details in scope:', { login, url });
+    const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}` } }, 'Graph user lookup', { signal });
+    const data = await res.json() as { value: GraphUser[] };
+    const user = data.value?.[0];
+    if (!user) throw new RequestError(`${login} was not found in the directory`, 'not-found', 404);
+    return isInScope(user, this.options.scope) ? toPerson(user) : null;
+  }
+
+  // Uses $batch, BATCH_SIZE logins per request, reporting each chunk as it arrives.
+  async resolveMany(logins: string[], onResolved: ResolveCallback, signal?: AbortSignal): Promise<void> {
+    let token: string;
+    try {
+      token = await this.options.getAccessToken();
+    } catch (err) {
+      logins.forEach(login => onResolved(login, null, err));
+      return;
+    }
+    for (let i = 0; i < logins.length; i += BATCH_SIZE) {
+      const chunk = logins.slice(i, i + BATCH_SIZE);
+      try {
+        const results = await this.batchFetchUsers(chunk, token, signal);
+        chunk.forEach(login => {
+          const result = results.get(login);
+          if (result instanceof RequestError) onResolved(login, null, result);
+          else onResolved(login, result || null, result ? undefined : new RequestError(`No batch response for ${login}`, 'http'));
+        });
+      } catch (err) {
+        signal?.throwIfAborted();
+        chunk.forEach(login => onResolved(login, null, err));
+      }
+    }
+  }
+
+  // Each sub-request succeeds or fails on its own: throttled ones are sent again in a smaller
+  // batch after their Retry-After, everything else is reported per login (404 is not found)
+  private async batchFetchUsers(logins: string[], token: string, signal?: AbortSignal): Promise<Map<string, Person | RequestError>> {
+    const results = new Map<string, Person | RequestError>();
+    let pending = logins;
+    for (let attempt = 0; pending.length; attempt++) {
+      const body = {
+        requests: pending.map((login, i) => ({
+          id: String(i),
+          method: 'GET',
+          url: `/users/${encodeURIComponent(login)}?$select=${USER_SELECT}`,
+        })),
+      };
+      const res = await requestWithRetry(`${this.api}/$batch`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }, 'Graph $batch', { signal });
+      const data = await res.json() as { responses: Array<{ id: string; status: number; headers?: Record<string, string>; body?: GraphUser }> };
+      const throttled: string[] = [];
+      let delay = 0;
+      for (const r of data.responses || []) {
+        const login = pending[Number(r.id)];
+        if (r.status >= 200 && r.status < 300 && r.body) {
+          results.set(login, toPerson(r.body));
+          continue;
+        }
+        if (isRetryStatus(r.status) && attempt < BATCH_RETRIES) {
+          const header = Object.entries(r.headers || {}).find(([name]) => name.toLowerCase() === 'retry-after')?.[1];
+          delay = Math.max(delay, retryAfterMs(header) ?? 1000 * 2 ** attempt);
+          throttled.push(login);
+          continue;
+        }
+        console.warn(`Batch lookup failed for ${login}:`, r.status);
+        results.set(login, errorForStatus(r.status, `Graph lookup of ${login}`));
+      }
+      pending = throttled;
+      if (!pending.length) break;
+      if (delay > BATCH_MAX_DELAY_MS) {
+        console.error(`Graph $batch throttled, Retry-After ${delay} ms is longer than ${BATCH_MAX_DELAY_MS} ms`);
+        pending.forEach(login => results.set(login, errorForStatus(429, `Graph lookup of ${login}`)));
+        break;
+      }
+      console.warn(`Graph $batch throttled ${pending.length} lookups, retrying in ${delay} ms`);
+      await wait(delay, signal);
+    }
+    return results;
+  }
+
+  // /me/manager needs User.Read; other users' managers need User.Read.All
+  async getManager(userId: string | null, signal?: AbortSignal): Promise<ManagerResult | null> {
+    const token = await this.options.getAccessToken();
+    const base = userId ? `users/${encodeURIComponent(userId)}` : 'me';
+    const url = `${this.api}/${base}/manager?$select=${USER_SELECT}`;
+    console.log('Fetching manager:', { userId, url });
+    try {
+      const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}` } }, 'Graph manager lookup', { signal });
+      const manager = await res.json() as GraphUser;
+      return { person: toPerson(manager), jobTitle: manager.jobTitle };
+    } catch (e) {
+      if (e instanceof RequestError && e.kind === 'not-found') return null;
+      throw e;
+    }
+  }
+
+  // Signed-in user's own photo needs User.Read; other people's need User.ReadBasic.All
+  async getPhoto(userId: string, signal?: AbortSignal): Promise<Blob | null> {
+    const token = await this.options.getAccessToken();
+    const url = `${this.api}/users/${encodeURIComponent(userId)}/photos/48x48/$value`;
+    try {
+      const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}` } }, 'Graph photo lookup', { signal });
+      return await res.blob();
+    } catch (e) {
+      signal?.throwIfAborted();
+      if (!(e instanceof RequestError && e.kind === 'not-found')) console.warn('Graph photo lookup failed:', userId, e);
+      return null;
+    }
+  }
+
+  // Mail tips expose other people's automatic replies with Mail.Read; a 403 means the
+  // scope was not granted and is treated as unknown rather than an error
+  async getAutomaticReplies(address: string, signal?: AbortSignal): Promise<AutomaticReplies | null> {
+    const token = await this.options.getAccessToken();
+    let res: Response;
+    try {
+      res = await requestWithRetry(`${this.api}/me/getMailTips`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', Prefer: 'outlook.timezone="UTC"' },
+        body: JSON.stringify({ EmailAddresses: [address], MailTipsOptions: 'automaticReplies' }),
+      }, 'Graph mail tips', { signal });
+    } catch (e) {
+      if (e instanceof RequestError && e.kind === 'forbidden') {
+        console.warn('Not allowed to read mail tips, skipping out-of-office check');
+        return null;
+      }
+      throw e;
+    }
+    const data = await res.json() as { value: GraphMailTips[] };
+    const replies = data.value?.[0]?.automaticReplies;
+    if (!replies?.message) return null;
+    const utc = (t?: GraphDateTime) => t?.dateTime ? `${t.dateTime.replace(/Z$/, '')}Z` : undefined;
+    return { message: replies.message, start: utc(replies.scheduledStartTime), end: utc(replies.scheduledEndTime) };
+  }
+
+  // Needs GroupMember.Read.All (or Group.Read.All) in the scopes
+  async searchGroups(term: string, signal?: AbortSignal): Promise<Person[]> {
+    const token = await this.options.getAccessToken();
+    const top = clampTop(this.options.maxSuggestions);
+    const url = `${this.api}/groups?$search="displayName:${encodeURIComponent(term)}"`
+      + `&$select=id,displayName,mail&$count=true&$orderBy=displayName&$top=${top}`;
+    console.log('Url', url);
+    const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}`, 'ConsistencyLevel': 'eventual' } }, 'Graph /groups search', { signal });
+    const data = await res.json() as { value: GraphGroup[] };
+    const results = (data.value || []).map(toGroupPerson);
+    console.log('Graph /groups results:', results);
+    return results;
+  }
+
+  // Transitive user members, following paging; the directory scope still applies to each member
+  async expandGroup(groupId: string, signal?: AbortSignal): Promise<Person[]> {
+    const token = await this.options.getAccessToken();
+    const select = SCOPED_USER_SELECT;
+    let url: string | undefined = `${this.api}/groups/${encodeURIComponent(groupId)}/transitiveMembers/microsoft.graph.user`
+      + `?$select=${select}&$count=true&$top=999`;
+    const members: GraphUser[] = [];
+    while (url) {
+      const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}`, 'ConsistencyLevel': 'eventual' } }, 'Graph group expansion', { signal });
+      const data = await res.json() as { value: GraphUser[]; '@odata.nextLink'?: string };
+      members.push(...(data.value || []));
+      url = data['@odata.nextLink'];
+    }
+    const results = members.filter(m => isInScope(m, this.options.scope)).map(toPerson);
+    console.log('Graph group members:', groupId, results);
+    return results;
+  }
+
+  // /me/people has no accountEnabled/userType, so look those up on /users before filtering.
+  private async withAccountDetails(entries: ScopedPerson[], token: string, signal?: AbortSignal): Promise<ScopedPerson[]> {
+    const ids = entries.map(e => e.id).filter(Boolean);
+    if (!ids.length) return entries;
+    const filter = `id in (${ids.map(id => `'${id.replace(/'/g, "''")}'`).join(',')})`;
+    const url = `${this.api}/users?$filter=${encodeURIComponent(filter)}&$select=id,accountEnabled,userType&$top=${ids.length}`;
+    console.log('Fetching account details for scope check:', { ids });
+    try {
+      const res = await requestWithRetry(url, { headers: { Authorization: `Bearer ${token}` } }, 'Graph account details', { signal });
+      const data = await res.json() as { value: GraphUser[] };
+      const byId = new Map((data.value || []).map(u => [u.id, u]));
+      // Entries that are not directory users at all (contacts) are dropped
+      return entries
+        .filter(e => byId.has(e.id))
+        .map(e => ({ ...e, accountEnabled: byId.get(e.id)!.accountEnabled, userType: byId.get(e.id)!.userType }));
+    } catch (e) {
+      signal?.throwIfAborted();
+      console.warn('Account details lookup failed, applying scope without account checks:', e);
+      return entries;
+    }
+  }
+}
+
+// ======= SharePoint people picker =======
+// Uses the site's own ClientPeoplePickerWebServiceInterface with the signed-in
+// SharePoint session, so no Azure AD app registration is needed.
+type PickerEntity = {
+  Key: string;
+  DisplayText: string;
+  Description?: string;
+  EntityType?: string;
+  EntityData?: { Email?: string; Department?: string; Title?: string; PrincipalType?: string };
+};
+
+export type SharePointProviderOptions = {
+  siteUrl: string;
+  maxSuggestions: number;
+  scope: DirectoryScope;
+};
+
+const PICKER_API = '_api/SP.UI.ApplicationPages.ClientPeoplePickerWebServiceInterface';
+
+export class SharePointDirectoryProvider implements DirectoryProvider {
+  private digest?: { value: string; expires: number };
+
+  constructor(private options: SharePointProviderOptions) {}
+
+  private get siteUrl(): string {
+    const configured = this.options.siteUrl?.trim();
+    const fromPage = (window as any)._spPageContextInfo?.webAbsoluteUrl || (window.parent as any)?._spPageContextInfo?.webAbsoluteUrl;
+    return (configured || fromPage || window.location.origin).replace(/\/$/, '');
+  }
+
+  private async requestDigest(signal?: AbortSignal): Promise<string> {
+    if (this.digest && this.digest.expires > Date.now()) return this.digest.value;
+    const res = await requestWithRetry(`${this.siteUrl}/_api/contextinfo`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { Accept: 'application/json;odata=verbose' },
+    }, 'SharePoint contextinfo', { signal });
+    const data = await res.json();
+    const info = data?.d?.GetContextWebInformation || data;
+    // Refresh a minute before SharePoint expires it
+    this.digest = { value: info.FormDigestValue, expires: Date.now() + ((info.FormDigestTimeoutSeconds || 1800) - 60) * 1000 };
+    return this.digest.value;
+  }
+
+  private async callPicker(method: string, queryParams: Record<string, unknown>, signal?: AbortSignal): Promise<any> {
+    const digest = await this.requestDigest(signal);
+    const res = await requestWithRetry(`${this.siteUrl}/${PICKER_API}.${method}`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        Accept: 'application/json;odata=verbose',
+        'Content-Type': 'application/json;odata=verbose',
+        'X-RequestDigest': digest,
+      },
+      body: JSON.stringify({ queryParams: { __metadata: { type: 'SP.UI.ApplicationPages.ClientPeoplePickerQueryParameters' }, ...queryParams } }),
+    }, `SharePoint ${method}`, { signal });
+    const data = await res.json();
+    // The service returns its result as a JSON string
+    const raw = data?.d?.[method.charAt(0).toUpperCase() + method.slice(1)] ?? data?.value;
+    return typeof raw === 'string' ? JSON.parse(raw) : raw;
+  }
+
+  private toEntry(e: PickerEntity): ScopedPerson {
+    // Claims keys look like "i:0#.f|membership|jane@contoso.com"
+    const login = (e.Key || '').split('|').pop() || e.Key;
+    return {
+      id: e.Key,
+      displayName: e.DisplayText,
+      mail: e.EntityData?.Email || undefined,
+      userPrincipalName: login,
+      department: e.EntityData?.Department,
+      jobTitle: e.EntityData?.Title,
+      userType: login.toLowerCase().includes('#ext#') ? 'Guest' : 'Member',
+    };
+  }
+
+  async search(term: string, signal?: AbortSignal): Promise<Person[]> {
+    const top = clampTop(this.options.maxSuggestions);
+    const scope = this.options.scope;
+    console.log('SharePoint search:', { term, site: this.siteUrl, top, scope });
+    const entities = await this.callPicker('clientPeoplePickerSearchUser', {
+      QueryString: term,
+      MaximumEntitySuggestions: Math.min(top * 3, 50),
+      AllowEmailAddresses: false,
+      AllowMultipleEntities: false,
+      PrincipalSource: 15,
+      PrincipalType: 1, // users only
+    }, signal) as PickerEntity[];
+    const results = (entities || [])
+      .map(e => this.toEntry(e))
+      .filter(e => isInScope(e, scope))
+      .slice(0, top)
+      .map(toPerson);
+    console.log('SharePoint results:', results);
+    return results;
+  }
+
+  async resolve(login: string, signal?: AbortSignal): Promise<Person> {
+    return toPerson(await this.resolveEntry(login, signal));
+  }
+
+  async resolveInScope(login: string, signal?: AbortSignal): Promise<Person | null> {
+    const entry = await this.resolveEntry(login, signal);
+    return isInScope(entry, this.options.scope) ? toPerson(entry) : null;
+  }
+
+  private async resolveEntry(login: string, signal?: AbortSignal): Promise<ScopedPerson> {
+    const entity = await this.callPicker('clientPeoplePickerResolveUser', {
+      QueryString: login,
+      AllowEmailAddresses: false,
+      AllowMultipleEntities: false,
+      PrincipalSource: 15,
+      PrincipalType: 1,
+    }, signal) as PickerEntity | null;
+    if (!entity?.Key || entity.EntityType === 'UNRES') {
+      throw new RequestError(`SharePoint could not resolve ${login}`, 'not-found', 404);
+    }
+    return this.toEntry(entity);
+  }
+
+  resolveMany(logins: string[], onResolved: ResolveCallback, signal?: AbortSignal): Promise<void> {
+    return resolveIndividually(this, logins, onResolved, signal);
+  }
+}
+
+// ======= Static list =======
+// Reads people from a JSON array set in the designer:
+// [{ "displayName", "email", "login"?, "id"?, "givenName"?, "surname"?, "jobTitle"?, "department"?, "officeLocation"?, "companyName"? }].
+// Groups are entries with "type": "group" and a "members" array of logins.
+// Works without a tenant or network, which makes it useful for demos and testing.
+export type StaticProviderOptions = {
+  json: string;
+  maxSuggestions: number;
+  scope: DirectoryScope;
+};
+
+export class StaticDirectoryProvider implements DirectoryProvider {
+  private parsed?: { people: ScopedPerson[]; groups: Array<Person & { members: string[] }> };
+
+  constructor(private options: StaticProviderOptions) {}
+
+  private get people(): ScopedPerson[] {
+    return this.load().people;
+  }
+
+  private get groups(): Array<Person & { members: string[] }> {
+    return this.load().groups;
+  }
+
+  private load() {
+    if (this.parsed) return this.parsed;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(this.options.json || '[]');
+    } catch {
+      throw new Error('Static directory list is not valid JSON.');
+    }
+    if (!Array.isArray(parsed)) throw new Error('Static directory list must be a JSON array.');
+    const groups = parsed
+      .filter((g: any) => g?.type === 'group' && typeof g.displayName === 'string')
+      .map((g: any) => ({
+        ...toGroupPerson({ id: String(g.id || g.email || g.displayName), displayName: g.displayName, mail: g.email }),
+        members: Array.isArray(g.members) ? g.members.map(String) : [],
+      }));
+    const people: ScopedPerson[] = parsed
+      .filter((p: any) => p && p.type !== 'group' && typeof p.displayName === 'string' && (p.login || p.email))
+      .map((p: any) => ({
+        id: String(p.id || p.login || p.email),
+        displayName: p.displayName,
+        mail: p.email,
+        userPrincipalName: p.login || p.email,
+        givenName: p.givenName,
+        surname: p.surname,
+        department: p.department,
+        companyName: p.companyName,
+        jobTitle: p.jobTitle,
+        officeLocation: p.officeLocation,
+      }));
+    this.parsed = { people, groups };
+    return this.parsed;
+  }
+
+  async search(term: string): Promise<Person[]> {
+    const top = clampTop(this.options.maxSuggestions);
+    const matches = this.people.filter(p => matchesAll(p, term) && isInScope(p, this.options.scope));
+    const results = rankEntries(matches, term)
+      .slice(0, top)
+      .map(toPerson);
+    console.log('Static directory results:', results);
+    return results;
+  }
+
+  async searchGroups(term: string): Promise<Person[]> {
+    const needle = term.trim().toLowerCase();
+    return this.groups
+      .filter(g => [g.displayName, g.email].some(v => (v || '').toLowerCase().includes(needle)))
+      .slice(0, clampTop(this.options.maxSuggestions))
+      .map(({ members, ...group }) => group);
+  }
+
+  async expandGroup(groupId: string): Promise<Person[]> {
+    const group = this.groups.find(g => g.id === groupId);
+    if (!group) throw new Error(`Group ${groupId} is not in the static directory list`);
+    const members: Person[] = [];
+    for (const login of group.members) {
+      const match = this.people.find(p => [p.id, p.mail, p.userPrincipalName].some(v => (v || '').toLowerCase() === login.toLowerCase()));
+      if (match && isInScope(match, this.options.scope)) members.push(toPerson(match));
+    }
+    return members;
+  }
+
+  async resolve(login: string): Promise<Person> {
+    return toPerson(this.find(login));
+  }
+
+  async resolveInScope(login: string): Promise<Person | null> {
+    const match = this.find(login);
+    return isInScope(match, this.options.scope) ? toPerson(match) : null;
+  }
+
+  private find(login: string): ScopedPerson {
+    const key = login.trim().toLowerCase();
+    const match = this.people.find(p => [p.id, p.mail, p.userPrincipalName].some(v => (v || '').toLowerCase() === key));
+    if (!match) throw new RequestError(`${login} is not in the static directory list`, 'not-found', 404);
+    return match;
+  }
+
+  resolveMany(logins: string[], onResolved: ResolveCallback): Promise<void> {
+    return resolveIndividually(this, logins, onResolved);
+  }
+}
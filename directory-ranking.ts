@@ -0,0 +1,88 @@
+// Client-side matching and ranking of people search results. Graph and the static list
+// match on several fields, so results are re-ranked by how well the typed text matches:
+// whole field, then prefix, then word prefix (e.g. a surname), then anywhere.
+
+export type SearchableEntry = {
+  id: string;
+  displayName: string;
+  mail?: string;
+  userPrincipalName?: string;
+  givenName?: string;
+  surname?: string;
+  jobTitle?: string;
+};
+
+const FIELD_WEIGHTS: Array<[keyof SearchableEntry, number]> = [
+  ['displayName', 1],
+  ['givenName', 0.9],
+  ['surname', 0.9],
+  ['mail', 0.8],
+  ['userPrincipalName', 0.8],
+  ['jobTitle', 0.4],
+];
+
+// Words inside names and addresses: "jane.doe@contoso.com" -> jane, doe, contoso, com
+const WORD_BREAK = /[\s.@_\-,()]+/;
+
+export function searchTokens(term: string): string[] {
+  const text = (term || '').trim().toLowerCase();
+  if (!text) return [];
+  // An address is matched whole; anything else word by word
+  return text.includes('@') ? [text] : text.split(/\s+/).filter(Boolean);
+}
+
+function fieldScore(value: string | undefined, token: string): number {
+  const text = (value || '').toLowerCase();
+  if (!text) return 0;
+  if (text === token) return 100;
+  if (text.startsWith(token)) return 60;
+  if (text.split(WORD_BREAK).some(w => w.startsWith(token))) return 40;
+  return text.includes(token) ? 15 : 0;
+}
+
+// 0 when some token matches no field
+export function matchScore(entry: SearchableEntry, term: string): number {
+  const tokens = searchTokens(term);
+  let total = 0;
+  for (const token of tokens) {
+    const best = Math.max(...FIELD_WEIGHTS.map(([field, weight]) => fieldScore(entry[field], token) * weight));
+    if (!best) return 0;
+    total += best;
+  }
+  return total;
+}
+
+export function matchesAll(entry: SearchableEntry, term: string): boolean {
+  return !searchTokens(term).length || matchScore(entry, term) > 0;
+}
+
+// Highest score first; boost adds source relevance (e.g. /me/people order) and keeps
+// fuzzy server matches that no field matches literally, after the literal ones.
+export function rankEntries<T extends SearchableEntry>(entries: T[], term: string, boost: (entry: T, index: number) => number = () => 0): T[] {
+  return entries
+    .map((entry, index) => ({ entry, index, score: matchScore(entry, term) + boost(entry, index) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(r => r.entry);
+}
+
+// First entry per id, then per address, keeping the order entries came in
+export function dedupeEntries<T extends SearchableEntry>(entries: T[]): T[] {
+  const seen = new Set<string>();
+  return entries.filter(e => {
+    const keys = [e.id, e.mail, e.userPrincipalName].filter((k): k is string => !!k).map(k => k.toLowerCase());
+    if (keys.some(k => seen.has(k))) return false;
+    keys.forEach(k => seen.add(k));
+    return true;
+  });
+}
+
+// Start and end of the longest token found in text, for highlighting
+export function findMatch(text: string, term: string): [number, number] | null {
+  const lower = (text || '').toLowerCase();
+  const tokens = searchTokens(term).sort((a, b) => b.length - a.length);
+  for (const token of tokens) {
+    const start = lower.indexOf(token);
+    if (start >= 0) return [start, start + token.length];
+  }
+  return null;
+}
@@ -0,0 +1,130 @@
+// Request layer for directory calls: cancellation, retries on throttling and errors the
+// component can turn into a message the requester understands.
+
+// unavailable: the service or a gateway did not answer in time (502/504), worth trying again later
+export type RequestErrorKind = 'auth' | 'forbidden' | 'throttled' | 'unavailable' | 'offline' | 'not-found' | 'http';
+
+export class RequestError extends Error {
+  constructor(message: string, readonly kind: RequestErrorKind, readonly status?: number) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+export type RetryOptions = {
+  signal?: AbortSignal;
+  retries?: number; // attempts after the first one
+  baseDelayMs?: number; // doubled on every retry, unless the server sends Retry-After
+  maxDelayMs?: number; // a longer Retry-After fails as throttled instead of retrying early
+};
+
+const RETRY_STATUSES = new Set([429, 502, 503, 504]);
+
+export function isRetryStatus(status: number): boolean {
+  return RETRY_STATUSES.has(status);
+}
+
+export function isAbortError(err: unknown): boolean {
+  return (err as any)?.name === 'AbortError';
+}
+
+// Resolves after ms, or rejects with an AbortError as soon as the signal aborts
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Retry-After is either seconds or an HTTP date
+export function retryAfterMs(header: string | null | undefined): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Also used for the sub-responses of a Graph $batch, which carry only a status
+export function errorForStatus(status: number, label: string, statusText = ''): RequestError {
+  const message = `${label} failed: ${status}${statusText ? ` ${statusText}` : ''}`;
+  switch (status) {
+    case 401: return new RequestError(message, 'auth', 401);
+    case 403: return new RequestError(message, 'forbidden', 403);
+    case 404: return new RequestError(message, 'not-found', 404);
+    case 429:
+    case 503: return new RequestError(message, 'throttled', status);
+    case 502:
+    case 504: return new RequestError(message, 'unavailable', status);
+    default: return new RequestError(message, 'http', status);
+  }
+}
+
+// fetch that retries throttled and network failures, honoring Retry-After, and throws a
+// RequestError for any response that is still not ok. Aborts reject with an AbortError.
+export async function requestWithRetry(url: string, init: RequestInit, label: string, options: RetryOptions = {}): Promise<Response> {
+  const { signal, retries = 3, baseDelayMs = 500, maxDelayMs = 30000 } = options;
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, signal });
+    } catch (err) {
+      if (isAbortError(err) || signal?.aborted) throw err;
+      if (!navigator.onLine) throw new RequestError(`${label} failed: offline`, 'offline');
+      if (attempt >= retries) throw new RequestError(`${label} failed: ${(err as Error)?.message || err}`, 'offline');
+      console.warn(`${label} network error, retrying:`, err);
+      await wait(Math.min(baseDelayMs * 2 ** attempt, maxDelayMs), signal);
+      continue;
+    }
+    if (res.ok) return res;
+    if (!RETRY_STATUSES.has(res.status) || attempt >= retries) {
+      console.error(`${label} failed:`, res.status, res.statusText);
+      throw errorForStatus(res.status, label, res.statusText);
+    }
+    const asked = retryAfterMs(res.headers.get('Retry-After'));
+    if (asked !== null && asked > maxDelayMs) {
+      console.error(`${label} throttled (${res.status}), Retry-After ${asked} ms is longer than ${maxDelayMs} ms`);
+      throw errorForStatus(res.status, label, res.statusText);
+    }
+    const delay = asked ?? Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+    console.warn(`${label} throttled (${res.status}), retrying in ${delay} ms`);
+    await wait(delay, signal);
+  }
+}
+
+// ======= LRU cache =======
+// Least recently used entries are dropped first once maxEntries is reached
+export class LruCache<V> {
+  private entries = new Map<string, { value: V; expires: number }>();
+
+  constructor(private maxEntries: number, private ttlMs: number) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) return undefined;
+    this.entries.set(key, entry); // most recent last
+    return entry.value;
+  }
+
+  set(key: string, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
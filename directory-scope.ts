@@ -0,0 +1,125 @@
+// Directory scope policy: decides which directory entries the picker may offer.
+// The same policy is applied to every people source so tenants configure it once
+// in the designer instead of editing the bundle.
+
+export type DirectoryScope = {
+  allowedDomains: string[];
+  excludedDomains: string[];
+  departments: string[];
+  companies: string[];
+  excludeDisabled: boolean;
+  excludeGuests: boolean;
+};
+
+// Shape shared by Graph /users and /me/people entries (after mapping) that the policy inspects.
+export type ScopedEntry = {
+  id: string;
+  mail?: string;
+  userPrincipalName?: string;
+  department?: string;
+  companyName?: string;
+  accountEnabled?: boolean;
+  userType?: string;
+  personSubclass?: string; // /me/people personType.subclass
+};
+
+export type ScopeSettings = {
+  allowedDomains?: string;
+  excludedDomains?: string;
+  allowedDepartments?: string;
+  allowedCompanies?: string;
+  excludeDisabledAccounts?: boolean;
+  excludeGuests?: boolean;
+};
+
+// ======= Parsing =======
+export function parseList(csv: string | undefined | null): string[] {
+  return (csv || '')
+    .split(/[,;\n]/)
+    .map(s => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function parseDomains(csv: string | undefined | null): string[] {
+  return parseList(csv).map(d => d.replace(/^@/, ''));
+}
+
+export function buildScope(settings: ScopeSettings): DirectoryScope {
+  return {
+    allowedDomains: parseDomains(settings.allowedDomains),
+    excludedDomains: parseDomains(settings.excludedDomains),
+    departments: parseList(settings.allowedDepartments),
+    companies: parseList(settings.allowedCompanies),
+    excludeDisabled: !!settings.excludeDisabledAccounts,
+    excludeGuests: !!settings.excludeGuests,
+  };
+}
+
+export function isScopeEmpty(scope: DirectoryScope): boolean {
+  return !scope.allowedDomains.length
+    && !scope.excludedDomains.length
+    && !scope.departments.length
+    && !scope.companies.length
+    && !scope.excludeDisabled
+    && !scope.excludeGuests;
+}
+
+// True when the policy depends on fields only the /users endpoint returns.
+export function needsAccountLookup(scope: DirectoryScope): boolean {
+  return scope.excludeDisabled || scope.excludeGuests;
+}
+
+// ======= Matching =======
+export function domainOf(address: string | undefined | null): string {
+  const at = (address || '').lastIndexOf('@');
+  return at >= 0 ? address!.slice(at + 1).toLowerCase() : '';
+}
+
+// Subdomains count as part of their parent, e.g. "eu.contoso.com" matches "contoso.com".
+export function domainMatches(domain: string, candidates: string[]): boolean {
+  return candidates.some(c => domain === c || domain.endsWith(`.${c}`));
+}
+
+function isGuestEntry(entry: ScopedEntry): boolean {
+  if ((entry.userType || '').toLowerCase() === 'guest') return true;
+  if ((entry.userPrincipalName || '').toLowerCase().includes('#ext#')) return true;
+  // /me/people also returns personal and implicit contacts that are not directory members
+  return !!entry.personSubclass && entry.personSubclass !== 'OrganizationUser';
+}
+
+export function isInScope(entry: ScopedEntry, scope: DirectoryScope): boolean {
+  const domain = domainOf(entry.mail || entry.userPrincipalName);
+  if (scope.allowedDomains.length && !domainMatches(domain, scope.allowedDomains)) return false;
+  if (scope.excludedDomains.length && domainMatches(domain, scope.excludedDomains)) return false;
+  if (scope.departments.length && !scope.departments.includes((entry.department || '').toLowerCase())) return false;
+  if (scope.companies.length && !scope.companies.includes((entry.companyName || '').toLowerCase())) return false;
+  if (scope.excludeDisabled && entry.accountEnabled === false) return false;
+  if (scope.excludeGuests && isGuestEntry(entry)) return false;
+  return true;
+}
+
+// ======= Graph OData =======
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Server-side pre-filter for /users. isInScope stays authoritative because OData
+// endsWith cannot express the subdomain rule or case-insensitive list matching.
+export function buildUsersFilter(scope: DirectoryScope): string {
+  const clauses: string[] = [];
+  if (scope.allowedDomains.length) {
+    clauses.push(`(${scope.allowedDomains.map(d => `endsWith(mail,${quote(d)})`).join(' or ')})`);
+  }
+  for (const d of scope.excludedDomains) {
+    clauses.push(`not(endsWith(mail,${quote(`@${d}`)}))`);
+  }
+  if (scope.departments.length) {
+    clauses.push(`department in (${scope.departments.map(quote).join(',')})`);
+  }
+  if (scope.companies.length) {
+    clauses.push(`companyName in (${scope.companies.map(quote).join(',')})`);
+  }
+  if (scope.excludeDisabled) clauses.push('accountEnabled eq true');
+  if (scope.excludeGuests) clauses.push(`userType eq 'Member'`);
+  return clauses.join(' and ');
+}
@@ -0,0 +1,47 @@
+// Session-level cache of resolved people, shared by every approvers-repeater on the page.
+// Keyed by lowercased id, UPN and mail so a row resolves from whichever login it saved.
+
+import type { Person } from './approvers-schema.js';
+
+const TTL_MS = 15 * 60 * 1000;
+const STORAGE_KEY = 'approvers-repeater:people';
+
+type CacheEntry = { person: Person; expires: number };
+
+const entries = new Map<string, CacheEntry>(readStored());
+
+function readStored(): Array<[string, CacheEntry]> {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(([, e]) => e?.expires > Date.now()) : [];
+  } catch {
+    return [];
+  }
+}
+
+function persist() {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(entries.entries())));
+  } catch (e) {
+    console.warn('Unable to persist people cache:', e);
+  }
+}
+
+export function getCachedPerson(key: string): Person | null {
+  const k = (key || '').toLowerCase();
+  const entry = entries.get(k);
+  if (!entry) return null;
+  if (entry.expires <= Date.now()) {
+    entries.delete(k);
+    return null;
+  }
+  return entry.person;
+}
+
+export function cachePerson(person: Person, ...aliases: string[]) {
+  const entry: CacheEntry = { person, expires: Date.now() + TTL_MS };
+  for (const key of [person.id, person.login, person.email, ...aliases]) {
+    if (key) entries.set(key.toLowerCase(), entry);
+  }
+  persist();
+}
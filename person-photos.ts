@@ -0,0 +1,40 @@
+// Profile photos as object URLs, shared by every approvers-repeater on the page.
+// null means the person has no photo. Each loadPhoto is paired with a releasePhoto;
+// the object URL is revoked once no control shows the photo any more.
+
+const photos = new Map<string, { photo: Promise<string | null>; users: number }>();
+
+export function loadPhoto(id: string, fetchPhoto: (id: string) => Promise<Blob | null>): Promise<string | null> {
+  const key = id.toLowerCase();
+  let entry = photos.get(key);
+  if (!entry) {
+    const photo = fetchPhoto(id)
+      .then(blob => blob ? URL.createObjectURL(blob) : null)
+      .catch(err => {
+        console.warn('Photo lookup failed:', id, err);
+        return null;
+      });
+    entry = { photo, users: 0 };
+    photos.set(key, entry);
+  }
+  entry.users++;
+  return entry.photo;
+}
+
+export function releasePhoto(id: string) {
+  const key = id.toLowerCase();
+  const entry = photos.get(key);
+  if (!entry || --entry.users > 0) return;
+  photos.delete(key);
+  entry.photo.then(url => {
+    if (url) URL.revokeObjectURL(url);
+  });
+}
+
+// Up to two letters from the first and last words, e.g. "Jane van Doe" -> "JD"
+export function initials(name: string): string {
+  const words = (name || '').replace(/[^\p{L}\p{N}\s]/gu, ' ').trim().split(/\s+/).filter(Boolean);
+  if (!words.length) return '?';
+  const letters = words.length === 1 ? words[0].slice(0, 1) : words[0].slice(0, 1) + words[words.length - 1].slice(0, 1);
+  return letters.toUpperCase();
+}